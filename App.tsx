@@ -1,8 +1,32 @@
-import React, { useState, useEffect } from 'react';
-import { AppMode, Platform, AnalysisResult, FileInput, TrendItem } from './types';
-import { analyzeContent } from './services/geminiService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppMode, Platform, AnalysisResult, FileInput, TrendItem, LLMProviderId, LLMSettings, ConfigState, BrandProfile, HistoryEntry, CrossPostPackage, TrendWatchlist, ContentBrief, Competitor, CompetitorRun, HookAnalysis } from './types';
+import { analyzeContent, analyzeHook, beatCompetitor, crossPostContent, generateVariants, regenerateField, reviseAnalysis, suggestPostingCadence, transcribeAudio } from './services/geminiService';
+import { PROVIDERS, DEFAULT_LLM_SETTINGS } from './services/providers';
+import { BRAND_DOC_ACCEPT, BrandDocument, extractBrandDocument, mergeBrandGuidelines } from './services/brandDocuments';
 import FileUpload from './components/FileUpload';
 import AnalysisResultView from './components/AnalysisResultView';
+import BrandProfileManager from './components/BrandProfileManager';
+import HistorySidebar from './components/HistorySidebar';
+import ContentCalendar from './components/ContentCalendar';
+import TrendCard from './components/TrendCard';
+import VariantComparison from './components/VariantComparison';
+import CrossPostView from './components/CrossPostView';
+import BeatThisNotes from './components/BeatThisNotes';
+import CompetitorLibrary from './components/CompetitorLibrary';
+import MediaProcessingPanel from './components/MediaProcessingPanel';
+import HookAnalysisView from './components/HookAnalysisView';
+import { MAX_VARIANTS, MIN_VARIANTS, pickVariantHooks } from './services/variants';
+import { deleteHistoryEntry, listHistoryEntries, recordHistoryEntry, updateHistoryEntry } from './services/historyStore';
+import { describePlatformIssues, validatePlatformRules } from './services/platformRules';
+import { checkBrandCompliance, describeViolations, hasBrandRules, parseBrandRules } from './services/brandCompliance';
+import { EditableField } from './services/resultEdits';
+import { PHASE_LABELS, progressPercent, PROGRESS_PHASES, ProgressEvent, RunOptions } from './services/progress';
+import { RecoveryAction, RECOVERY_LABELS, toAnalysisError } from './services/errors';
+import { trayItemsFromHistory } from './services/contentCalendar';
+import { DEFAULT_MEDIA_PROCESSING, HOOK_WINDOW_SECONDS, preprocessMedia, sampleOpening } from './services/mediaPreprocessing';
+import { addCompetitorRun, competitorRunFrom, createCompetitor, deleteCompetitor, findCompetitor, listCompetitors, removeCompetitorRun, saveCompetitor } from './services/competitorLibrary';
+import { createWatchlist, deleteWatchlist, findWatchlist, listWatchlists, recordWatchlistRun, saveWatchlist, TrendDiffItem, watchlistLabel } from './services/trendWatchlists';
+import { applyBrandProfile, loadActiveBrandProfileId, loadBrandProfiles, saveActiveBrandProfileId, saveBrandProfiles } from './services/brandProfiles';
 import { 
   Sparkles, 
   BrainCircuit, 
@@ -26,41 +50,94 @@ import {
   Search,
   ShieldCheck,
   FileText,
-  Key
+  Key,
+  History,
+  Columns,
+  Layers,
+  Undo2,
+  X,
+  RotateCw,
+  CalendarDays,
+  Eye,
+  Trash2,
+  Globe,
+  Lightbulb,
+  Crosshair,
+  BookMarked,
+  Timer
 } from 'lucide-react';
 
-// Define a type for the config state
-interface ConfigState {
-  goal: string;
-  style: string;
-  keywords: string;
-  originalText: string;
-  geography: string;
-  targetAudience: string;
-  targetLanguage: string;
-  demographics: string;
-  brandGuidelines: string;
-  niche: string;
+const PLATFORM_OPTIONS = [
+  { id: Platform.INSTAGRAM, icon: Instagram },
+  { id: Platform.TIKTOK, icon: Music2 },
+  { id: Platform.YOUTUBE, icon: Youtube },
+  { id: Platform.LINKEDIN, icon: Linkedin },
+  { id: Platform.TWITTER, icon: Twitter },
+  { id: Platform.FACEBOOK, icon: Facebook },
+];
+
+const EMPTY_BRIEF: ContentBrief = { topic: '', keyPoints: '', offer: '', links: '' };
+
+// Message shown under the action button; service failures add recovery actions
+interface ErrorNotice {
+  message: string;
+  recovery: RecoveryAction[];
+  retry?: () => void;
 }
 
+// Undo history for edits to a result
+const MAX_UNDO_STEPS = 50;
+const EDIT_COALESCE_MS = 1000;
+
 const App: React.FC = () => {
   // API Key State
   const [apiKey, setApiKey] = useState<string>('');
   const [showGatekeeper, setShowGatekeeper] = useState<boolean>(true);
   const [tempKey, setTempKey] = useState<string>('');
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(DEFAULT_LLM_SETTINGS);
 
   const [mode, setMode] = useState<AppMode>(AppMode.GENERATION);
   const [platform, setPlatform] = useState<Platform>(Platform.INSTAGRAM);
   const [files, setFiles] = useState<FileInput[]>([]);
   const [brandFiles, setBrandFiles] = useState<FileInput[]>([]);
+  const [brandDocuments, setBrandDocuments] = useState<BrandDocument[]>([]);
+  const [isExtractingBrand, setIsExtractingBrand] = useState(false);
+  const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>(() => loadBrandProfiles());
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(() => loadActiveBrandProfileId());
+  const [showProfileManager, setShowProfileManager] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [showCompetitors, setShowCompetitors] = useState(false);
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [competitorTag, setCompetitorTag] = useState(''); // Account name to file the current Spy result under
+  const [taggedResult, setTaggedResult] = useState<AnalysisResult | null>(null); // Spy result already filed, to avoid duplicates
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [trendResults, setTrendResults] = useState<TrendItem[] | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [trendQuery, setTrendQuery] = useState<{ niche: string; platform?: Platform } | null>(null); // What trendResults were hunted for
+  const [watchlists, setWatchlists] = useState<TrendWatchlist[]>([]);
+  const [trendDiff, setTrendDiff] = useState<TrendDiffItem[] | null>(null); // Set when the run matched a watchlist
+  const [variants, setVariants] = useState<AnalysisResult[] | null>(null);
+  const [variantCount, setVariantCount] = useState(1);
+  const [beatFiles, setBeatFiles] = useState<FileInput[]>([]); // User's own asset for a Spy "beat this" run
+  const [hookAnalysis, setHookAnalysis] = useState<HookAnalysis | null>(null);
+  const [analyzingHookFor, setAnalyzingHookFor] = useState<string | null>(null); // Preview URL of the video being checked
+  const [generationSource, setGenerationSource] = useState<'media' | 'brief'>('media'); // Create from an upload or from an idea
+  const [crossPostPlatforms, setCrossPostPlatforms] = useState<Platform[]>(Object.values(Platform));
+  const [crossPostResults, setCrossPostResults] = useState<CrossPostPackage[] | null>(null);
+  const [error, setErrorNotice] = useState<ErrorNotice | null>(null);
+  const [isFixingBrand, setIsFixingBrand] = useState(false);
+  const [isRepairingPlatform, setIsRepairingPlatform] = useState(false);
+  const [regeneratingField, setRegeneratingField] = useState<EditableField | null>(null);
+  const [undoStack, setUndoStack] = useState<AnalysisResult[]>([]);
+  const lastEditAt = useRef(0);
   
-  // Loading State
-  const [loadingProgress, setLoadingProgress] = useState(0);
-  const [loadingMessage, setLoadingMessage] = useState('');
+  // Loading State (driven by progress events from the service)
+  const [progress, setProgress] = useState<ProgressEvent | null>(null);
+  const [waitNotice, setWaitNotice] = useState<string | null>(null); // Retry backoff / request pacing
+  const [streamingPreview, setStreamingPreview] = useState<AnalysisResult | null>(null); // Partial result while generating
+  const runController = useRef<AbortController | null>(null);
 
   const [config, setConfig] = useState<ConfigState>({
     goal: 'Viral Growth',
@@ -75,20 +152,49 @@ const App: React.FC = () => {
     niche: ''
   });
 
+  const setError = (message: string | null) => setErrorNotice(message ? { message, recovery: [] } : null);
+
+  // Typed service failures map to a message plus recovery actions; cancellations stay silent
+  const showFailure = (err: unknown, retry?: () => void) => {
+    const failure = toAnalysisError(err);
+    if (failure.kind === 'cancelled') return;
+    setErrorNotice({ message: failure.message, recovery: failure.recovery, retry });
+  };
+
+  const loadingPercent = progress ? progressPercent(progress) : 0;
+  const followUpRunning = !!regeneratingField || isFixingBrand || isRepairingPlatform;
+  // New runs wait for follow-ups, so a late follow-up never edits the next run's result
+  const isBusy = isAnalyzing || followUpRunning || !!analyzingHookFor;
+
   // Check for existing API Key on mount
   useEffect(() => {
     const storedKey = localStorage.getItem('gemini_api_key');
     const envKey = process.env.API_KEY;
+    const storedProvider = localStorage.getItem('llm_provider') as LLMProviderId | null;
+    const storedModel = localStorage.getItem('llm_model');
+
+    if (storedProvider && PROVIDERS[storedProvider]) {
+      const info = PROVIDERS[storedProvider];
+      setLlmSettings({
+        provider: storedProvider,
+        model: storedModel && info.models.includes(storedModel) ? storedModel : info.defaultModel
+      });
+    }
 
+    // The key is loaded whatever the provider, so switching back to Gemini doesn't ask again
+    let key = '';
     if (envKey && envKey.length > 0 && !envKey.includes("VITE_")) {
        // Priority 1: Environment Variable (Vercel)
-       setApiKey(envKey);
-       setShowGatekeeper(false);
+       key = envKey;
     } else if (storedKey && storedKey.startsWith('AIza')) {
        // Priority 2: Local Storage
-       setApiKey(storedKey);
-       setShowGatekeeper(false);
+       key = storedKey;
     }
+    setApiKey(key);
+
+    // Offline providers don't need a key
+    const needsKey = !storedProvider || !PROVIDERS[storedProvider] || PROVIDERS[storedProvider].requiresApiKey;
+    if (key || !needsKey) setShowGatekeeper(false);
   }, []);
 
   const handleSaveKey = () => {
@@ -99,61 +205,154 @@ const App: React.FC = () => {
     localStorage.setItem('gemini_api_key', tempKey);
     setApiKey(tempKey);
     setShowGatekeeper(false);
+    // A saved key implies the user wants the live provider
+    if (!PROVIDERS[llmSettings.provider].requiresApiKey) {
+      localStorage.setItem('llm_provider', LLMProviderId.GEMINI);
+      localStorage.setItem('llm_model', PROVIDERS[LLMProviderId.GEMINI].defaultModel);
+      setLlmSettings(DEFAULT_LLM_SETTINGS);
+    }
   };
 
-  // Simulation of Loading Phases
-  useEffect(() => {
-    let interval: any;
-    
-    if (isAnalyzing) {
-      setLoadingProgress(0);
-      setLoadingMessage('Phase 1: Encrypting & Uploading to Cloud...');
-      
-      const startTime = Date.now();
-      const estimatedDuration = 15000; 
-
-      interval = setInterval(() => {
-        const elapsed = Date.now() - startTime;
-        let progress = (elapsed / estimatedDuration) * 100;
-        
-        // Cap at 90% until the actual API returns
-        if (progress > 90) progress = 90;
-        
-        setLoadingProgress(progress);
-
-        // Phase Logic
-        if (progress < 25) {
-          setLoadingMessage('Phase 1: Encrypting & Uploading to Cloud...');
-        } else if (progress < 50) {
-          setLoadingMessage('Phase 2: Scanning Video Frames & Audio...');
-        } else if (progress < 75) {
-          if (mode === AppMode.TREND_HUNTER) {
-            setLoadingMessage('Phase 3: Searching Live Google Trends...');
-          } else {
-            setLoadingMessage('Phase 3: Deep Semantic Analysis...');
-          }
-        } else {
-          setLoadingMessage(mode === AppMode.TREND_HUNTER ? 'Phase 4: Identifying Viral Patterns...' : 'Phase 4: Generating Viral Strategy...');
-        }
+  const handleChangeKey = () => {
+    localStorage.removeItem('gemini_api_key');
+    setShowGatekeeper(true);
+    setApiKey('');
+    setTempKey('');
+  };
+
+  const handleRecovery = (action: RecoveryAction) => {
+    switch (action) {
+      case 'retry':
+        error?.retry?.();
+        break;
+      case 'switch-key':
+        handleChangeKey();
+        break;
+      case 'smaller-file':
+        setFiles([]);
+        setError("Upload a smaller or shorter file, then try again.");
+        break;
+    }
+  };
+
+  const handleSelectProvider = (provider: LLMProviderId) => {
+    const info = PROVIDERS[provider];
+    localStorage.setItem('llm_provider', provider);
+    localStorage.setItem('llm_model', info.defaultModel);
+    setLlmSettings({ provider, model: info.defaultModel });
+    if (info.requiresApiKey && !apiKey) setShowGatekeeper(true);
+  };
+
+  const handleSelectModel = (model: string) => {
+    localStorage.setItem('llm_model', model);
+    setLlmSettings(prev => ({ ...prev, model }));
+  };
+
+  const handleSaveProfiles = (profiles: BrandProfile[]) => {
+    saveBrandProfiles(profiles);
+    setBrandProfiles(profiles);
+    if (activeProfileId && !profiles.some(p => p.id === activeProfileId)) {
+      saveActiveBrandProfileId(null);
+      setActiveProfileId(null);
+    }
+  };
 
-      }, 100);
+  const handleApplyProfile = (profile: BrandProfile | null) => {
+    saveActiveBrandProfileId(profile ? profile.id : null);
+    setActiveProfileId(profile ? profile.id : null);
+    if (profile) {
+      setConfig(prev => applyBrandProfile(prev, profile));
+      setPlatform(profile.platform);
     } else {
-      // When analysis finishes, snap to 100 if we have a result
-      if (result || trendResults) setLoadingProgress(100);
+      setConfig(prev => ({ ...prev, brandGuidelines: '' }));
     }
+  };
+
+  const handleUseOffline = () => {
+    handleSelectProvider(LLMProviderId.MOCK);
+    setShowGatekeeper(false);
+  };
+
+  // Re-apply the last active brand profile on load
+  useEffect(() => {
+    const profile = brandProfiles.find(p => p.id === activeProfileId);
+    if (profile) {
+      setConfig(prev => applyBrandProfile(prev, profile));
+      setPlatform(profile.platform);
+    }
+  }, []);
+
+  const refreshHistory = () => {
+    listHistoryEntries()
+      .then(setHistoryEntries)
+      .catch(err => console.error("History load error:", err));
+  };
+
+  useEffect(refreshHistory, []);
+
+  useEffect(() => {
+    listWatchlists()
+      .then(setWatchlists)
+      .catch(err => console.error("Watchlist load error:", err));
+  }, []);
 
+  useEffect(() => {
+    listCompetitors()
+      .then(setCompetitors)
+      .catch(err => console.error("Competitor load error:", err));
+  }, []);
+
+  // Extract text from uploaded Brand Guard documents whenever the set changes
+  useEffect(() => {
+    let cancelled = false;
+    if (brandFiles.length === 0) {
+      setBrandDocuments([]);
+      setIsExtractingBrand(false);
+      return;
+    }
+    setIsExtractingBrand(true);
+    Promise.all(brandFiles.map(f => extractBrandDocument(f.file)))
+      .then(docs => {
+        if (!cancelled) setBrandDocuments(docs);
+      })
+      .catch(err => console.error("Brand document error:", err))
+      .finally(() => {
+        if (!cancelled) setIsExtractingBrand(false);
+      });
+    // A superseded extraction must not leave runs blocked; the next one sets the flag again
     return () => {
-      if (interval) clearInterval(interval);
+      cancelled = true;
+      setIsExtractingBrand(false);
     };
-  }, [isAnalyzing, mode, result, trendResults]);
+  }, [brandFiles]);
+
+  const effectiveBrandGuidelines = mergeBrandGuidelines(config.brandGuidelines, brandDocuments);
+  const brandRules = useMemo(() => parseBrandRules(effectiveBrandGuidelines), [effectiveBrandGuidelines]);
+  const brandViolations = useMemo(
+    () => result ? checkBrandCompliance(result, brandRules) : [],
+    [result, brandRules]
+  );
+  // Spy output is a template, not a post, so platform limits don't apply
+  const checksPlatform = mode === AppMode.GENERATION || mode === AppMode.REFINE;
+  const platformIssues = useMemo(
+    () => result && checksPlatform ? validatePlatformRules(result, platform) : [],
+    [result, platform, checksPlatform]
+  );
 
-  const handleAnalyze = async () => {
+  // `runConfig` lets callers (watchlist re-runs) start a run with settings they just set
+  const handleAnalyze = async (runConfig: ConfigState = config) => {
+    if (isBusy) return; // Retries and watchlist re-runs bypass the disabled button
     // Validation
-    if (mode === AppMode.GENERATION && files.length === 0) {
+    const briefRun = mode === AppMode.GENERATION && generationSource === 'brief';
+    if (mode === AppMode.GENERATION && !briefRun && files.length === 0) {
       setError("Please upload content to analyze.");
       return;
     }
-    if (mode === AppMode.REFINE && !config.originalText) {
+    if (briefRun && !runConfig.brief?.topic.trim()) {
+      setError("Please enter a topic for your brief.");
+      return;
+    }
+    if (mode === AppMode.REFINE && !runConfig.originalText) {
       setError("Please enter text to refine.");
       return;
     }
@@ -161,67 +360,414 @@ const App: React.FC = () => {
       setError("Please upload competitor content to analyze.");
       return;
     }
-    if (mode === AppMode.TREND_HUNTER && !config.niche) {
+    if (mode === AppMode.TREND_HUNTER && !runConfig.niche) {
       setError("Please enter a niche to hunt trends for.");
       return;
     }
+    if (mode === AppMode.CROSS_POST && files.length === 0) {
+      setError("Please upload the asset you want to cross-post.");
+      return;
+    }
+    if (mode === AppMode.CROSS_POST && crossPostPlatforms.length === 0) {
+      setError("Select at least one platform to cross-post to.");
+      return;
+    }
+    if (mode !== AppMode.TREND_HUNTER && isExtractingBrand) {
+      setError("Still reading your brand documents. Try again in a moment.");
+      return;
+    }
+
+    const controller = new AbortController();
+    runController.current = controller;
+    const runOptions: RunOptions = { signal: controller.signal, onProgress: handleProgress };
 
     setIsAnalyzing(true);
+    setProgress(null);
+    setWaitNotice(null);
+    setStreamingPreview(null);
     setError(null);
-    setResult(null);
+    showResult(null);
     setTrendResults(null);
+    setVariants(null);
+    setCrossPostResults(null);
+    setTrendDiff(null);
 
     try {
-      const filesToAnalyze = files.map(f => f.file);
+      // A brief run sends no media, so the prompt plans the shoot instead of auditing an upload.
+      // Trend Hunter ignores media, so nothing is preprocessed for it either.
+      const media = briefRun || mode === AppMode.TREND_HUNTER
+        ? { files: [], notes: [] }
+        : await prepareMedia(files, runConfig, runOptions);
+      const filesToAnalyze = media.files;
 
-      // Add safety check for large files
+      // Add safety check for large files (after preprocessing, which may have shrunk them)
       const totalSize = filesToAnalyze.reduce((sum, f) => sum + f.size, 0);
       const MAX_TOTAL_SIZE = 100 * 1024 * 1024; // 100MB total
       if (totalSize > MAX_TOTAL_SIZE) {
-        setError("Total file size exceeds 100MB. Please upload smaller files.");
-        setIsAnalyzing(false);
+        setError("Total upload size exceeds 100MB. Switch videos to \"Keyframes only\" or upload smaller files.");
+        return;
+      }
+
+      const analyzeConfig = { ...runConfig, brandGuidelines: effectiveBrandGuidelines, mediaNotes: media.notes };
+      const run = { mode, platform, config: runConfig, files: briefRun ? [] : files, llm: llmSettings };
+
+      // A/B: several variants, each on a different hook, compared before one is chosen
+      if (mode === AppMode.GENERATION && variantCount >= MIN_VARIANTS) {
+        const generated = await generateVariants(filesToAnalyze, platform, analyzeConfig, pickVariantHooks(variantCount), apiKey, llmSettings, runOptions);
+        setVariants(generated);
+        saveToHistory({ ...run, variants: generated });
         return;
       }
 
-      const data = await analyzeContent(filesToAnalyze, mode, platform, config, apiKey);
+      // Cross-Post: one package per selected platform, media shared across prompts
+      if (mode === AppMode.CROSS_POST) {
+        const packages = await crossPostContent(
+          filesToAnalyze,
+          Object.values(Platform).filter(p => crossPostPlatforms.includes(p)), // Keep tab order stable
+          analyzeConfig,
+          apiKey,
+          llmSettings,
+          runOptions
+        );
+        setCrossPostResults(packages);
+        saveToHistory({ ...run, crossPost: packages });
+        return;
+      }
+
+      const data = await analyzeContent(
+        filesToAnalyze,
+        mode,
+        platform,
+        analyzeConfig,
+        apiKey,
+        llmSettings,
+        // Single results render progressively; the validated reply replaces the preview
+        { ...runOptions, onPartialResult: setStreamingPreview }
+      );
 
       if (mode === AppMode.TREND_HUNTER) {
         const trends = data as TrendItem[];
         if (trends && trends.length > 0) {
           setTrendResults(trends);
+          setTrendQuery({ niche: runConfig.niche, platform: runConfig.trendPlatform });
+          saveToHistory({ ...run, trends });
+          compareWithWatchlist(runConfig, trends);
         } else {
           setError("No trends found for your niche. Try a different search term.");
         }
       } else {
-        setResult(data as AnalysisResult);
+        showResult(data as AnalysisResult);
+        saveToHistory({ ...run, result: data as AnalysisResult });
       }
     } catch (err: any) {
-      const errorMsg = err.message || "An unexpected error occurred.";
-      setError(errorMsg);
-      console.error("Analysis error:", err);
+      showFailure(err, () => handleAnalyze(runConfig));
+    } finally {
+      releaseRun(controller.signal);
+      setStreamingPreview(null);
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Keyframe sheets, downscaled images and transcripts: still one file per upload, in order
+  const prepareMedia = (inputs: FileInput[], runConfig: ConfigState, runOptions: RunOptions) =>
+    preprocessMedia(
+      inputs,
+      runConfig.mediaProcessing || DEFAULT_MEDIA_PROCESSING,
+      (audio, source) => transcribeAudio(audio, source.name, mode, platform, apiKey, llmSettings, runOptions),
+      runOptions
+    );
+
+  // Waits (retries, pacing) are shown beside the bar without moving it back
+  const handleProgress = (event: ProgressEvent) => {
+    if (event.waitMs !== undefined) {
+      setWaitNotice(event.message);
+    } else {
+      setProgress(event);
+      setWaitNotice(null);
+    }
+  };
+
+  // Follow-up calls on the current view (field rewrites, fixes) share the run's cancel and progress
+  const startFollowUp = (): RunOptions => {
+    const controller = new AbortController();
+    runController.current = controller;
+    setProgress(null);
+    setWaitNotice(null);
+    return { signal: controller.signal, onProgress: handleProgress };
+  };
+
+  // Only the run that still owns the ref clears it; a newer run keeps its cancel
+  const releaseRun = (signal?: AbortSignal) => {
+    if (runController.current?.signal === signal) runController.current = null;
+  };
+
+  // Aborts uploads, polling and generation; the service deletes any uploaded files
+  const handleCancel = () => {
+    runController.current?.abort();
+  };
+
+  // A fresh result (new run, restored entry, chosen variant) starts a new undo history
+  // and drops the hook check made for the previous one
+  const showResult = (next: AnalysisResult | null) => {
+    setResult(next);
+    setUndoStack([]);
+    setHookAnalysis(null);
+  };
+
+  // Edits to the current result are undoable. Rapid successive edits (typing in the
+  // thread editor) collapse into a single undo step.
+  const editResult = (next: AnalysisResult, coalesce = false) => {
+    const now = Date.now();
+    if (result && !(coalesce && now - lastEditAt.current < EDIT_COALESCE_MS)) {
+      setUndoStack(stack => [...stack.slice(-(MAX_UNDO_STEPS - 1)), result]);
+    }
+    lastEditAt.current = coalesce ? now : 0;
+    setResult(next);
+  };
+
+  const handleUndo = () => {
+    if (undoStack.length === 0) return;
+    setResult(undoStack[undoStack.length - 1]);
+    setUndoStack(stack => stack.slice(0, -1));
+    lastEditAt.current = 0;
+  };
+
+  // Spy follow-up: the user's own asset written to the decoded formula, opened as a Create result
+  const handleBeatCompetitor = async () => {
+    if (!result?.competitorInsights || isBusy) return;
+    if (beatFiles.length === 0) {
+      setError("Upload your own asset to beat this formula.");
+      return;
+    }
+    if (isExtractingBrand) {
+      setError("Still reading your brand documents. Try again in a moment.");
+      return;
+    }
+
+    const competitor = result;
+    const controller = new AbortController();
+    runController.current = controller;
+    setIsAnalyzing(true);
+    setProgress(null);
+    setWaitNotice(null);
+    setError(null);
+    try {
+      const runOptions: RunOptions = { signal: controller.signal, onProgress: handleProgress };
+      const media = await prepareMedia(beatFiles, config, runOptions);
+      const beaten = await beatCompetitor(
+        media.files,
+        competitor,
+        platform,
+        { ...config, brandGuidelines: effectiveBrandGuidelines, mediaNotes: media.notes },
+        apiKey,
+        llmSettings,
+        runOptions
+      );
+      setMode(AppMode.GENERATION);
+      setGenerationSource('media');
+      setFiles(beatFiles);
+      setBeatFiles([]);
+      showResult(beaten);
+      saveToHistory({ mode: AppMode.GENERATION, platform, config, files: beatFiles, llm: llmSettings, result: beaten });
+    } catch (err: any) {
+      showFailure(err, handleBeatCompetitor);
     } finally {
+      releaseRun(controller.signal);
       setIsAnalyzing(false);
     }
   };
 
+  // First-seconds check of one uploaded video; frames and audio are sampled in the browser
+  const handleAnalyzeHook = async (input: FileInput) => {
+    setAnalyzingHookFor(input.preview);
+    setError(null);
+    const runOptions = startFollowUp();
+    try {
+      const sample = await sampleOpening(input, runOptions);
+      setHookAnalysis(await analyzeHook(sample, input.file.name, platform, { ...config, brandGuidelines: effectiveBrandGuidelines }, apiKey, llmSettings, runOptions));
+    } catch (err: any) {
+      showFailure(err, () => handleAnalyzeHook(input));
+    } finally {
+      releaseRun(runOptions.signal);
+      setAnalyzingHookFor(null);
+    }
+  };
+
+  // Rewrite one field with the rest of the result as context; no media is re-sent
+  const handleRegenerateField = async (field: EditableField) => {
+    if (!result) return;
+    setRegeneratingField(field);
+    setError(null);
+    const runOptions = startFollowUp();
+    try {
+      const updated = await regenerateField(result, field, mode, platform, effectiveBrandGuidelines, apiKey, llmSettings, runOptions);
+      editResult(updated);
+    } catch (err: any) {
+      showFailure(err, () => handleRegenerateField(field));
+    } finally {
+      releaseRun(runOptions.signal);
+      setRegeneratingField(null);
+    }
+  };
+
+  // History writes never block or fail the run itself
+  const saveToHistory = (run: Parameters<typeof recordHistoryEntry>[0]) => {
+    recordHistoryEntry(run)
+      .then(refreshHistory)
+      .catch(err => console.error("History save error:", err));
+  };
+
+  const handleRestoreHistory = (entry: HistoryEntry) => {
+    setMode(entry.mode);
+    setPlatform(entry.platform);
+    setConfig(entry.config);
+    setFiles([]); // Original media isn't stored, only names & thumbnails
+    setGenerationSource(entry.mode === AppMode.GENERATION && entry.files.length === 0 && entry.config.brief?.topic ? 'brief' : 'media');
+    showResult(entry.result || null);
+    setVariants(entry.variants || null);
+    setCrossPostResults(entry.crossPost || null);
+    setTrendResults(entry.trends || null);
+    setTrendQuery(entry.trends ? { niche: entry.config.niche, platform: entry.config.trendPlatform } : null);
+    setTrendDiff(null);
+    setError(null);
+    setShowHistory(false);
+  };
+
+  const handleTogglePinHistory = (entry: HistoryEntry) => {
+    updateHistoryEntry({ ...entry, pinned: !entry.pinned })
+      .then(refreshHistory)
+      .catch(err => console.error("History update error:", err));
+  };
+
+  const handleDeleteHistory = (entry: HistoryEntry) => {
+    deleteHistoryEntry(entry.id)
+      .then(refreshHistory)
+      .catch(err => console.error("History delete error:", err));
+  };
+
+  // Feed the deterministic Brand Guard findings back to the model for a targeted rewrite
+  const handleFixViolations = async () => {
+    if (!result || brandViolations.length === 0) return;
+    setIsFixingBrand(true);
+    setError(null);
+    const runOptions = startFollowUp();
+    try {
+      const fixed = await reviseAnalysis(
+        result,
+        `Fix these Brand Guard violations:\n${describeViolations(brandViolations, result)}`,
+        mode,
+        platform,
+        effectiveBrandGuidelines,
+        apiKey,
+        llmSettings,
+        runOptions
+      );
+      editResult(fixed);
+    } catch (err: any) {
+      showFailure(err, handleFixViolations);
+    } finally {
+      releaseRun(runOptions.signal);
+      setIsFixingBrand(false);
+    }
+  };
+
+  // Ask the model to shorten only the fields that overflow the platform's hard limits
+  const handleRepairPlatform = async () => {
+    const overflows = platformIssues.filter(i => i.severity === 'error');
+    if (!result || overflows.length === 0) return;
+    setIsRepairingPlatform(true);
+    setError(null);
+    const runOptions = startFollowUp();
+    try {
+      const repaired = await reviseAnalysis(
+        result,
+        `Fix these ${platform} length overflows:\n${describePlatformIssues(overflows, platform)}`,
+        mode,
+        platform,
+        effectiveBrandGuidelines,
+        apiKey,
+        llmSettings,
+        runOptions
+      );
+      editResult(repaired);
+    } catch (err: any) {
+      showFailure(err, handleRepairPlatform);
+    } finally {
+      releaseRun(runOptions.signal);
+      setIsRepairingPlatform(false);
+    }
+  };
+
+  // A hunt for a watched niche is diffed against that watchlist's previous run
+  const compareWithWatchlist = (runConfig: ConfigState, trends: TrendItem[]) => {
+    const watchlist = findWatchlist(watchlists, runConfig.niche, runConfig.trendPlatform);
+    if (!watchlist) return;
+    const { watchlist: updated, diff } = recordWatchlistRun(watchlist, trends);
+    setTrendDiff(diff);
+    setWatchlists(prev => [updated, ...prev.filter(w => w.id !== updated.id)]);
+    saveWatchlist(updated).catch(err => console.error("Watchlist save error:", err));
+  };
+
+  // The current results become the baseline when they were hunted for the same niche
+  const handleSaveWatchlist = () => {
+    const niche = config.niche.trim();
+    if (!niche || findWatchlist(watchlists, niche, config.trendPlatform)) return;
+    const sameQuery = trendQuery?.niche.trim().toLowerCase() === niche.toLowerCase() && trendQuery.platform === config.trendPlatform;
+    const watchlist = createWatchlist(niche, config.trendPlatform, sameQuery && trendResults ? trendResults : undefined);
+    setWatchlists(prev => [watchlist, ...prev]);
+    saveWatchlist(watchlist).catch(err => console.error("Watchlist save error:", err));
+  };
+
+  const handleRunWatchlist = (watchlist: TrendWatchlist) => {
+    const next = { ...config, niche: watchlist.niche, trendPlatform: watchlist.platform };
+    setConfig(next);
+    handleAnalyze(next);
+  };
+
+  const handleDeleteWatchlist = (watchlist: TrendWatchlist) => {
+    setWatchlists(prev => prev.filter(w => w.id !== watchlist.id));
+    deleteWatchlist(watchlist.id).catch(err => console.error("Watchlist delete error:", err));
+  };
+
+  // File the current Spy result under a competitor account, creating it on first use
+  const handleTagCompetitor = () => {
+    const name = competitorTag.trim();
+    if (!name || !result?.competitorInsights || taggedResult === result) return;
+    const existing = findCompetitor(competitors, name);
+    const competitor = addCompetitorRun(existing || createCompetitor(name), competitorRunFrom(result, result.competitorInsights.assets?.length || files.length));
+    setCompetitors(prev => [competitor, ...prev.filter(c => c.id !== competitor.id)]);
+    setTaggedResult(result);
+    saveCompetitor(competitor).catch(err => console.error("Competitor save error:", err));
+  };
+
+  const handleRemoveCompetitorRun = (competitor: Competitor, run: CompetitorRun) => {
+    const updated = removeCompetitorRun(competitor, run.id);
+    setCompetitors(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+    saveCompetitor(updated).catch(err => console.error("Competitor save error:", err));
+  };
+
+  const handleDeleteCompetitor = (competitor: Competitor) => {
+    setCompetitors(prev => prev.filter(c => c.id !== competitor.id));
+    deleteCompetitor(competitor.id).catch(err => console.error("Competitor delete error:", err));
+  };
+
+  const updateBrief = (patch: Partial<ContentBrief>) =>
+    setConfig(prev => ({ ...prev, brief: { ...EMPTY_BRIEF, ...prev.brief, ...patch } }));
+
   const handleUseTrend = (trend: TrendItem) => {
-    // Switch to Generation Mode
+    // Switch to Generation Mode; the trend rides along as prompt context until dismissed
     setMode(AppMode.GENERATION);
-    // Pre-fill context
     setConfig(prev => ({
       ...prev,
       style: 'Urgent & Hype', // Trends usually require energy
       goal: 'Viral Growth',
-      keywords: trend.headline, // Use headline as context
-      // Note: We can't easily pre-fill a file, so user still needs to upload
+      activeTrend: trend,
     }));
-    // Show alert or toast instructions
-    alert(`Trend "${trend.headline}" activated! Upload your content now to generate the strategy.`);
   };
 
   const ModeButton = ({ m, icon: Icon, label, desc }: { m: AppMode, icon: any, label: string, desc: string }) => (
     <button
-      onClick={() => { setMode(m); setResult(null); setTrendResults(null); if(m !== AppMode.TREND_HUNTER) setFiles([]); }}
+      onClick={() => { setMode(m); showResult(null); setVariants(null); setCrossPostResults(null); setTrendResults(null); setTrendDiff(null); if(m !== AppMode.TREND_HUNTER) setFiles([]); }}
       className={`relative p-3 rounded-xl border transition-all text-left w-full h-full flex flex-col justify-between group ${
         mode === m 
           ? 'bg-indigo-600 border-indigo-500 shadow-lg shadow-indigo-500/20' 
@@ -281,6 +827,13 @@ const App: React.FC = () => {
                  Initialize System
                  <ArrowRight className="w-4 h-4 ml-2 group-hover:translate-x-1 transition-transform" />
                </button>
+
+               <button
+                 onClick={handleUseOffline}
+                 className="w-full text-xs text-slate-500 hover:text-indigo-300 transition-colors"
+               >
+                 No key? Run offline with demo data
+               </button>
             </div>
          </div>
       </div>
@@ -302,13 +855,69 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setShowHistory(true)}
+              className="flex items-center text-xs text-slate-500 hover:text-white transition-colors"
+            >
+              <History className="w-3.5 h-3.5 mr-1" /> History
+            </button>
+            <button
+              onClick={() => setShowCalendar(true)}
+              className="flex items-center text-xs text-slate-500 hover:text-white transition-colors"
+            >
+              <CalendarDays className="w-3.5 h-3.5 mr-1" /> Calendar
+            </button>
+            <button
+              onClick={() => setShowCompetitors(true)}
+              className="flex items-center text-xs text-slate-500 hover:text-white transition-colors"
+            >
+              <BookMarked className="w-3.5 h-3.5 mr-1" /> Competitors
+            </button>
+            <div className="flex items-center space-x-2">
+              <ShieldCheck className="w-3.5 h-3.5 text-slate-500" />
+              <select
+                value={activeProfileId || ''}
+                onChange={(e) => handleApplyProfile(brandProfiles.find(p => p.id === e.target.value) || null)}
+                className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none max-w-[140px]"
+                title="Brand Profile"
+              >
+                <option value="">No Brand Profile</option>
+                {brandProfiles.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setShowProfileManager(true)}
+                className="text-xs text-slate-500 hover:text-white transition-colors"
+              >
+                Manage
+              </button>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Cpu className="w-3.5 h-3.5 text-slate-500" />
+              <select
+                value={llmSettings.provider}
+                onChange={(e) => handleSelectProvider(e.target.value as LLMProviderId)}
+                className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none"
+                title="AI Provider"
+              >
+                {Object.values(PROVIDERS).map(p => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+              <select
+                value={llmSettings.model}
+                onChange={(e) => handleSelectModel(e.target.value)}
+                className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none hidden sm:block"
+                title="Model"
+              >
+                {PROVIDERS[llmSettings.provider].models.map(m => (
+                  <option key={m} value={m}>{m}</option>
+                ))}
+              </select>
+            </div>
             <button 
-              onClick={() => {
-                localStorage.removeItem('gemini_api_key');
-                setShowGatekeeper(true);
-                setApiKey('');
-                setTempKey('');
-              }}
+              onClick={handleChangeKey}
               className="text-xs text-slate-500 hover:text-white transition-colors"
             >
               Change Key
@@ -328,7 +937,7 @@ const App: React.FC = () => {
           {/* Mode Selector */}
           <section>
             <h2 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-4">Select Operation Mode</h2>
-            <div className="grid grid-cols-4 gap-2">
+            <div className="grid grid-cols-5 gap-2">
               <ModeButton 
                 m={AppMode.GENERATION} 
                 icon={Sparkles} 
@@ -353,26 +962,46 @@ const App: React.FC = () => {
                 label="Trends" 
                 desc="Live Hunt" 
               />
+              <ModeButton 
+                m={AppMode.CROSS_POST} 
+                icon={Layers} 
+                label="Cross" 
+                desc="All Platforms" 
+              />
             </div>
           </section>
 
+          {/* Active trend context (Create & Refine) */}
+          {config.activeTrend && (mode === AppMode.GENERATION || mode === AppMode.REFINE) && (
+            <div className="flex items-center gap-3 p-3 bg-orange-900/20 border border-orange-500/30 rounded-xl animate-fade-in">
+              <Flame className="w-5 h-5 text-orange-500 flex-shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="text-[10px] uppercase font-bold text-orange-400/80">Riding trend</p>
+                <p className="text-sm font-bold text-orange-200 truncate" title={config.activeTrend.whyItsHot}>{config.activeTrend.headline}</p>
+                {!!config.activeTrend.sources?.length && (
+                  <p className="text-[10px] text-orange-400/60">{config.activeTrend.sources.length} source{config.activeTrend.sources.length === 1 ? '' : 's'} attached</p>
+                )}
+              </div>
+              <button
+                onClick={() => setConfig(prev => ({ ...prev, activeTrend: undefined }))}
+                className="p-1 text-orange-400 hover:text-white rounded"
+                title="Stop using this trend"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
           {/* Dynamic Configuration based on Mode */}
           <div className="bg-slate-800/50 border border-slate-700 rounded-2xl p-6 backdrop-blur-sm space-y-6">
             
 
             {/* Platform Selector (Hidden in Trend Hunter & Spy) */}
-            {mode !== AppMode.COMPETITOR_SPY && mode !== AppMode.TREND_HUNTER && (
+            {mode !== AppMode.COMPETITOR_SPY && mode !== AppMode.TREND_HUNTER && mode !== AppMode.CROSS_POST && (
               <div>
                 <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Target Platform</label>
                 <div className="grid grid-cols-6 gap-2">
-                  {[
-                    { id: Platform.INSTAGRAM, icon: Instagram },
-                    { id: Platform.TIKTOK, icon: Music2 },
-                    { id: Platform.YOUTUBE, icon: Youtube },
-                    { id: Platform.LINKEDIN, icon: Linkedin },
-                    { id: Platform.TWITTER, icon: Twitter },
-                    { id: Platform.FACEBOOK, icon: Facebook },
-                  ].map((p) => (
+                  {PLATFORM_OPTIONS.map((p) => (
                     <button
                       key={p.id}
                       onClick={() => setPlatform(p.id)}
@@ -405,11 +1034,32 @@ const App: React.FC = () => {
                       onChange={(e) => setConfig({...config, brandGuidelines: e.target.value})}
                     />
                     <div className="flex items-center space-x-2">
-                       <p className="text-[10px] text-slate-500 uppercase font-bold flex-1">Or Upload PDF Style Guide:</p>
+                       <p className="text-[10px] text-slate-500 uppercase font-bold flex-1">Or Upload Style Guide (PDF, DOCX, MD, TXT):</p>
                        <div className="w-1/2">
-                          <FileUpload files={brandFiles} setFiles={setBrandFiles} />
+                          <FileUpload files={brandFiles} setFiles={setBrandFiles} multiple={true} accept={BRAND_DOC_ACCEPT} label="Documents" />
                        </div>
                     </div>
+
+                    {isExtractingBrand && (
+                      <p className="text-[10px] text-slate-400 flex items-center">
+                        <Loader2 className="w-3 h-3 mr-1 animate-spin" /> Reading brand documents...
+                      </p>
+                    )}
+                    {brandDocuments.filter(d => d.error).map((d, i) => (
+                      <p key={i} className="text-[10px] text-red-400">{d.name}: {d.error}</p>
+                    ))}
+
+                    {/* Preview of exactly what Brand Guard will inject */}
+                    {effectiveBrandGuidelines && !isExtractingBrand && (
+                      <details className="text-xs">
+                        <summary className="cursor-pointer text-[10px] uppercase font-bold text-indigo-400 hover:text-indigo-300">
+                          Rules the AI will follow ({effectiveBrandGuidelines.length} chars)
+                        </summary>
+                        <pre className="mt-2 max-h-48 overflow-y-auto whitespace-pre-wrap bg-slate-800 border border-slate-700 rounded-lg p-2 text-[11px] text-slate-300 font-sans">
+                          {effectiveBrandGuidelines}
+                        </pre>
+                      </details>
+                    )}
                   </div>
                </div>
             )}
@@ -437,6 +1087,79 @@ const App: React.FC = () => {
                       />
                     </div>
                  </div>
+                 <div>
+                    <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Platform Focus</label>
+                    <div className="grid grid-cols-7 gap-2">
+                      <button
+                        onClick={() => setConfig({ ...config, trendPlatform: undefined })}
+                        className={`flex items-center justify-center p-3 rounded-lg border transition-all ${
+                          !config.trendPlatform
+                            ? 'bg-orange-600/20 border-orange-500 text-orange-300'
+                            : 'bg-slate-900 border-slate-700 text-slate-500 hover:border-slate-500'
+                        }`}
+                        title="All platforms"
+                      >
+                        <Globe size={18} />
+                      </button>
+                      {PLATFORM_OPTIONS.map((p) => (
+                        <button
+                          key={p.id}
+                          onClick={() => setConfig({ ...config, trendPlatform: p.id })}
+                          className={`flex items-center justify-center p-3 rounded-lg border transition-all ${
+                            config.trendPlatform === p.id
+                              ? 'bg-orange-600/20 border-orange-500 text-orange-300'
+                              : 'bg-slate-900 border-slate-700 text-slate-500 hover:border-slate-500'
+                          }`}
+                          title={p.id}
+                        >
+                          <p.icon size={18} />
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+
+                 {/* Watchlists: saved niches, re-run and diffed against their last hunt */}
+                 <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-xs font-bold text-slate-400 uppercase flex items-center">
+                        <Eye className="w-3 h-3 mr-1" /> Watchlists
+                      </label>
+                      <button
+                        onClick={handleSaveWatchlist}
+                        disabled={!config.niche.trim() || !!findWatchlist(watchlists, config.niche, config.trendPlatform)}
+                        className="text-[10px] uppercase font-bold text-orange-400 hover:text-orange-300 disabled:text-slate-600"
+                      >
+                        {findWatchlist(watchlists, config.niche, config.trendPlatform) ? 'Watching' : '+ Watch this niche'}
+                      </button>
+                    </div>
+                    {watchlists.length === 0 ? (
+                      <p className="text-[11px] text-slate-500">Watch a niche to re-run it later and see which trends are new, still hot or faded.</p>
+                    ) : (
+                      <div className="space-y-1.5">
+                        {watchlists.map(w => (
+                          <div key={w.id} className="flex items-center p-2 bg-slate-900/60 border border-slate-700 rounded-lg text-xs">
+                            <div className="flex-1 min-w-0">
+                              <div className="text-slate-200 truncate">{watchlistLabel(w)}</div>
+                              <div className="text-[10px] text-slate-500">
+                                {w.runs[0] ? `Last run ${new Date(w.runs[0].runAt).toLocaleString()} · ${w.runs[0].trends.length} trends` : 'Not run yet'}
+                              </div>
+                            </div>
+                            <button
+                              onClick={() => handleRunWatchlist(w)}
+                              disabled={isBusy}
+                              className="p-1.5 text-slate-400 hover:text-orange-300 disabled:opacity-40"
+                              title="Re-run and compare"
+                            >
+                              <RotateCw className="w-3.5 h-3.5" />
+                            </button>
+                            <button onClick={() => handleDeleteWatchlist(w)} className="p-1.5 text-slate-500 hover:text-red-400" title="Stop watching">
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                 </div>
               </div>
             )}
 
@@ -524,8 +1247,82 @@ const App: React.FC = () => {
                    </div>
                 </div>
                 <div>
-                  <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Input Media</label>
-                  <FileUpload files={files} setFiles={setFiles} />
+                  <label className="text-xs font-bold text-slate-400 uppercase mb-2 flex items-center">
+                    <Columns className="w-3 h-3 mr-1" />
+                    A/B Variants
+                  </label>
+                  <div className="grid grid-cols-5 gap-2">
+                    {[1, ...Array.from({ length: MAX_VARIANTS - MIN_VARIANTS + 1 }, (_, i) => MIN_VARIANTS + i)].map(n => (
+                      <button
+                        key={n}
+                        onClick={() => setVariantCount(n)}
+                        className={`py-2 rounded-lg border text-xs font-bold transition-all ${
+                          variantCount === n
+                            ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300'
+                            : 'bg-slate-900 border-slate-700 text-slate-500 hover:border-slate-500'
+                        }`}
+                      >
+                        {n === 1 ? 'Single' : `${n}×`}
+                      </button>
+                    ))}
+                  </div>
+                  {variantCount > 1 && (
+                    <p className="text-[10px] text-slate-500 mt-1">Each variant uses a different hook: {pickVariantHooks(variantCount).join(', ')}.</p>
+                  )}
+                </div>
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-xs font-bold text-slate-400 uppercase block">{generationSource === 'brief' ? 'Content Brief' : 'Input Media'}</label>
+                    <div className="flex bg-slate-900 border border-slate-700 rounded-lg p-0.5 text-[10px] font-bold uppercase">
+                      {(['media', 'brief'] as const).map(source => (
+                        <button
+                          key={source}
+                          onClick={() => setGenerationSource(source)}
+                          className={`px-2.5 py-1 rounded-md transition-colors ${
+                            generationSource === source ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+                          }`}
+                        >
+                          {source === 'media' ? 'Media' : 'Idea only'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {generationSource === 'media' ? (
+                    <FileUpload files={files} setFiles={setFiles} />
+                  ) : (
+                    <div className="space-y-3">
+                      <div className="relative">
+                        <Lightbulb className="absolute top-3 left-3 text-slate-500 w-4 h-4" />
+                        <input
+                          type="text"
+                          placeholder="Topic (e.g. 3 mistakes beginners make with sourdough)"
+                          value={config.brief?.topic || ''}
+                          onChange={(e) => updateBrief({ topic: e.target.value })}
+                          className="w-full bg-slate-900 border border-slate-700 rounded-lg py-2.5 pl-9 pr-3 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                        />
+                      </div>
+                      <textarea
+                        className="w-full h-24 bg-slate-900 border border-slate-700 rounded-lg p-3 text-xs text-white focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
+                        placeholder="Key points, one per line"
+                        value={config.brief?.keyPoints || ''}
+                        onChange={(e) => updateBrief({ keyPoints: e.target.value })}
+                      />
+                      <input
+                        type="text"
+                        placeholder="Offer (optional, e.g. 20% off with code BAKE20)"
+                        value={config.brief?.offer || ''}
+                        onChange={(e) => updateBrief({ offer: e.target.value })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-xs text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                      />
+                      <textarea
+                        className="w-full h-16 bg-slate-900 border border-slate-700 rounded-lg p-3 text-xs text-white focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
+                        placeholder="Links (optional), one per line"
+                        value={config.brief?.links || ''}
+                        onChange={(e) => updateBrief({ links: e.target.value })}
+                      />
+                      <p className="text-[10px] text-slate-500">You'll get the full strategy plus a shot list of what to film.</p>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -559,6 +1356,38 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {/* Mode E: Cross-Post Inputs */}
+            {mode === AppMode.CROSS_POST && (
+              <div className="space-y-4 pt-4 border-t border-slate-700/50">
+                <div>
+                  <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Publish To ({crossPostPlatforms.length} selected)</label>
+                  <div className="grid grid-cols-6 gap-2">
+                    {PLATFORM_OPTIONS.map((p) => {
+                      const selected = crossPostPlatforms.includes(p.id);
+                      return (
+                        <button
+                          key={p.id}
+                          onClick={() => setCrossPostPlatforms(prev => selected ? prev.filter(id => id !== p.id) : [...prev, p.id])}
+                          className={`flex flex-col items-center justify-center p-3 rounded-lg border transition-all ${
+                            selected
+                              ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300'
+                              : 'bg-slate-900 border-slate-700 text-slate-500 hover:border-slate-500'
+                          }`}
+                          title={p.id}
+                        >
+                          <p.icon size={18} />
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div>
+                  <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Asset</label>
+                  <FileUpload files={files} setFiles={setFiles} />
+                </div>
+              </div>
+            )}
+
             {/* Mode C: Competitor Spy Inputs */}
             {mode === AppMode.COMPETITOR_SPY && (
               <div className="space-y-4 pt-4 border-t border-slate-700/50">
@@ -573,6 +1402,54 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {/* Keyframes vs full video, image downscaling (for whichever mode sends media) */}
+            {mode !== AppMode.TREND_HUNTER && !(mode === AppMode.GENERATION && generationSource === 'brief')
+              && files.some(f => f.type !== 'document') && (
+              <MediaProcessingPanel
+                files={files}
+                settings={config.mediaProcessing || DEFAULT_MEDIA_PROCESSING}
+                onChange={(mediaProcessing) => setConfig({ ...config, mediaProcessing })}
+              />
+            )}
+
+            {/* First-seconds hook check for the user's own videos */}
+            {(mode === AppMode.GENERATION || mode === AppMode.REFINE || mode === AppMode.CROSS_POST)
+              && !(mode === AppMode.GENERATION && generationSource === 'brief')
+              && files.some(f => f.type === 'video') && (
+              <div className="space-y-2 pt-4 border-t border-slate-700/50">
+                <label className="text-xs font-bold text-slate-400 uppercase flex items-center">
+                  <Timer className="w-3 h-3 mr-1" />
+                  Hook Check
+                </label>
+                {files.filter(f => f.type === 'video').map(video => (
+                  <div key={video.preview} className="flex items-center justify-between bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs">
+                    <span className="truncate mr-2 text-slate-300">{video.file.name}</span>
+                    <button
+                      onClick={() => handleAnalyzeHook(video)}
+                      disabled={isBusy}
+                      className="flex items-center flex-shrink-0 px-2.5 py-1 text-indigo-300 bg-indigo-600/20 border border-indigo-500/40 rounded-md hover:bg-indigo-600/30 disabled:opacity-50"
+                    >
+                      {analyzingHookFor === video.preview
+                        ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+                        : <Timer className="w-3.5 h-3.5 mr-1" />}
+                      Analyze first {HOOK_WINDOW_SECONDS}s
+                    </button>
+                  </div>
+                ))}
+                {analyzingHookFor && (
+                  <div className="flex items-center justify-between text-[11px]">
+                    <div className="min-w-0">
+                      <p className="text-slate-400 truncate">{progress ? progress.message : 'Sampling the opening'}</p>
+                      {waitNotice && <p className="text-amber-300 truncate">{waitNotice}</p>}
+                    </div>
+                    <button onClick={handleCancel} className="flex items-center flex-shrink-0 ml-2 text-slate-400 hover:text-red-300">
+                      <X className="w-3.5 h-3.5 mr-0.5" /> Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
           </div>
 
           {/* Action Button */}
@@ -583,10 +1460,10 @@ const App: React.FC = () => {
               }`}></div>
             )}
             <button
-              onClick={handleAnalyze}
-              disabled={isAnalyzing}
+              onClick={() => handleAnalyze()}
+              disabled={isBusy}
               className={`relative w-full py-4 rounded-xl font-bold text-white shadow-lg transition-all flex items-center justify-center ${
-                isAnalyzing 
+                isBusy
                 ? 'bg-slate-700 cursor-not-allowed' 
                 : mode === AppMode.TREND_HUNTER
                   ? 'bg-orange-600 hover:bg-orange-500'
@@ -622,14 +1499,55 @@ const App: React.FC = () => {
               <div className="w-8 h-8 bg-red-500/20 rounded-full flex items-center justify-center mr-3 flex-shrink-0">
                  <Zap className="w-4 h-4 text-red-500 fill-red-500" />
               </div>
-              <span className="font-medium">{error}</span>
+              <div className="flex-1">
+                <span className="font-medium">{error.message}</span>
+                {error.recovery.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {error.recovery
+                      .filter(action => action !== 'retry' || error.retry)
+                      .map(action => (
+                        <button
+                          key={action}
+                          onClick={() => handleRecovery(action)}
+                          className="px-3 py-1 text-xs font-bold bg-red-500/20 hover:bg-red-500/30 text-red-100 border border-red-500/40 rounded-md transition-colors"
+                        >
+                          {RECOVERY_LABELS[action]}
+                        </button>
+                      ))}
+                  </div>
+                )}
+              </div>
             </div>
           )}
         </div>
 
         {/* RIGHT COLUMN: Output */}
         <div className="lg:col-span-7">
-          {isAnalyzing ? (
+          {isAnalyzing && streamingPreview ? (
+            // STREAMING PREVIEW: fields fill in as the reply arrives
+            <div className="space-y-4">
+              <div className="bg-slate-800/40 border border-slate-700 rounded-xl p-3 flex items-center space-x-3">
+                <Loader2 className="w-4 h-4 text-indigo-400 animate-spin flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">
+                    <span className="truncate">{progress ? progress.message : 'Generating'}</span>
+                    <span>{Math.round(loadingPercent)}%</span>
+                  </div>
+                  <div className="w-full h-1.5 bg-slate-900 rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-indigo-600 to-purple-500 transition-all duration-300" style={{ width: `${loadingPercent}%` }} />
+                  </div>
+                  {waitNotice && <p className="mt-1 text-[11px] text-amber-300 truncate">{waitNotice}</p>}
+                </div>
+                <button
+                  onClick={handleCancel}
+                  className="flex items-center px-2.5 py-1 text-xs text-slate-300 bg-slate-800 border border-slate-600 rounded-md hover:text-white hover:border-red-500/60 transition-colors"
+                >
+                  <X className="w-3.5 h-3.5 mr-1" /> Cancel
+                </button>
+              </div>
+              <AnalysisResultView result={streamingPreview} mode={mode} streaming />
+            </div>
+          ) : isAnalyzing ? (
             // CUSTOM LOADING VIEW
             <div className="h-full min-h-[500px] border border-slate-700 bg-slate-800/30 rounded-2xl flex flex-col items-center justify-center p-8 backdrop-blur-sm animate-fade-in relative overflow-hidden">
                {/* Background Glow */}
@@ -647,71 +1565,243 @@ const App: React.FC = () => {
                   {/* Progress Bar Container */}
                   <div className="space-y-3">
                       <div className="flex justify-between text-xs font-bold text-slate-400 uppercase tracking-wider">
-                          <span className="flex items-center"><Sparkles className="w-3 h-3 mr-1" /> System Active</span>
-                          <span>{Math.round(loadingProgress)}%</span>
+                          <span className="flex items-center"><Sparkles className="w-3 h-3 mr-1" /> {progress ? PHASE_LABELS[progress.phase] : 'Starting'}</span>
+                          <span>{Math.round(loadingPercent)}%</span>
                       </div>
                       <div className="w-full h-4 bg-slate-900 rounded-full overflow-hidden border border-slate-700/50 shadow-inner relative">
                           {/* Animated Gradient Bar */}
                           <div 
                               className={`h-full bg-gradient-to-r transition-all duration-300 ease-out relative ${mode === AppMode.TREND_HUNTER ? 'from-orange-600 via-red-500 to-orange-400' : 'from-indigo-600 via-purple-500 to-indigo-400'}`}
-                              style={{ width: `${loadingProgress}%` }}
+                              style={{ width: `${loadingPercent}%` }}
                           >
                              <div className="absolute inset-0 bg-white/20 animate-[shimmer_2s_infinite] skew-x-12"></div>
                           </div>
                       </div>
+                      {/* Phase Steps */}
+                      <div className="flex justify-between text-[10px] uppercase font-bold tracking-wider">
+                        {PROGRESS_PHASES.map((phase, i) => {
+                          const current = progress ? PROGRESS_PHASES.indexOf(progress.phase) : -1;
+                          return (
+                            <span key={phase} className={i < current ? 'text-slate-400' : i === current ? 'text-indigo-300' : 'text-slate-600'}>
+                              {PHASE_LABELS[phase]}
+                            </span>
+                          );
+                        })}
+                      </div>
                   </div>
                   
                   {/* Phase Text */}
                   <div className="h-12 flex items-center justify-center">
                     <p className="text-slate-200 font-medium animate-pulse flex items-center bg-slate-900/50 px-4 py-2 rounded-full border border-slate-700/50">
-                        {loadingMessage.includes('Trends') ? (
+                        {mode === AppMode.TREND_HUNTER ? (
                            <Zap className="w-4 h-4 text-yellow-400 mr-2" />
                         ) : (
                            <FileText className="w-4 h-4 text-indigo-400 mr-2" />
                         )}
-                        {loadingMessage}
+                        {progress ? progress.message : 'Preparing request...'}
                     </p>
                   </div>
+                  {waitNotice && (
+                    <p className="-mt-4 text-xs text-amber-300 flex items-center justify-center">
+                      <RotateCw className="w-3.5 h-3.5 mr-1.5 animate-spin" /> {waitNotice}
+                    </p>
+                  )}
+
+                  <button
+                    onClick={handleCancel}
+                    className="inline-flex items-center px-4 py-2 text-sm text-slate-300 bg-slate-800 border border-slate-600 rounded-lg hover:text-white hover:border-red-500/60 transition-colors"
+                  >
+                    <X className="w-4 h-4 mr-1.5" /> Cancel
+                  </button>
                </div>
             </div>
           ) : result ? (
-            <AnalysisResultView result={result} mode={mode} />
+            <div className="space-y-4">
+              {followUpRunning && (
+                <div className="bg-slate-800/40 border border-slate-700 rounded-xl p-3 flex items-center space-x-3">
+                  <Loader2 className="w-4 h-4 text-indigo-400 animate-spin flex-shrink-0" />
+                  <div className="flex-1 min-w-0 text-xs">
+                    <p className="text-slate-300 truncate">{progress ? progress.message : 'Revising result'}</p>
+                    {waitNotice && <p className="mt-0.5 text-[11px] text-amber-300 truncate">{waitNotice}</p>}
+                  </div>
+                  <button
+                    onClick={handleCancel}
+                    className="flex items-center px-2.5 py-1 text-xs text-slate-300 bg-slate-800 border border-slate-600 rounded-md hover:text-white hover:border-red-500/60 transition-colors"
+                  >
+                    <X className="w-3.5 h-3.5 mr-1" /> Cancel
+                  </button>
+                </div>
+              )}
+              {(variants || undoStack.length > 0) && (
+                <div className="flex items-center justify-between">
+                  {variants ? (
+                    <button
+                      onClick={() => showResult(null)}
+                      className="flex items-center text-xs text-indigo-400 hover:text-indigo-300"
+                    >
+                      <Columns className="w-3.5 h-3.5 mr-1" /> Back to variant comparison
+                    </button>
+                  ) : <span />}
+                  {undoStack.length > 0 && (
+                    <button
+                      onClick={handleUndo}
+                      className="flex items-center px-2.5 py-1 text-xs text-slate-300 bg-slate-800 border border-slate-700 rounded-md hover:text-white hover:border-slate-500"
+                    >
+                      <Undo2 className="w-3.5 h-3.5 mr-1" /> Undo
+                      <span className="ml-1.5 text-[10px] text-slate-500">{undoStack.length}</span>
+                    </button>
+                  )}
+                </div>
+              )}
+              <div className={result.beatThis ? 'xl:flex xl:items-start xl:gap-4 space-y-4 xl:space-y-0' : ''}>
+                <div className="flex-1 min-w-0">
+                  <AnalysisResultView
+                    result={result}
+                    mode={mode}
+                    brandViolations={brandViolations}
+                    brandGuardActive={hasBrandRules(brandRules)}
+                    onFixViolations={handleFixViolations}
+                    isFixing={isFixingBrand}
+                    platform={checksPlatform ? platform : undefined}
+                    platformIssues={platformIssues}
+                    onRepairPlatform={handleRepairPlatform}
+                    isRepairing={isRepairingPlatform}
+                    onChange={(next) => editResult(next, true)}
+                    onRegenerateField={handleRegenerateField}
+                    regeneratingField={regeneratingField}
+                  />
+                </div>
+                {result.beatThis && (
+                  <div className="xl:w-72 xl:flex-shrink-0 xl:sticky xl:top-4">
+                    <BeatThisNotes notes={result.beatThis} />
+                  </div>
+                )}
+              </div>
+
+              {/* Spy benchmark: file the run under the competitor account it decoded */}
+              {mode === AppMode.COMPETITOR_SPY && result.competitorInsights && (
+                <div className="bg-slate-800/40 border border-slate-700 rounded-xl p-4">
+                  <label className="text-xs font-bold text-slate-400 uppercase mb-2 flex items-center">
+                    <BookMarked className="w-3 h-3 mr-1" /> Competitor Library
+                  </label>
+                  {taggedResult === result ? (
+                    <p className="text-xs text-green-300 flex items-center">
+                      Filed under {competitorTag.trim()}.
+                      <button onClick={() => setShowCompetitors(true)} className="ml-2 text-indigo-400 hover:text-indigo-300 underline">View timeline</button>
+                    </p>
+                  ) : (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        list="competitor-names"
+                        placeholder="Competitor account, e.g. @rivalbrand"
+                        value={competitorTag}
+                        onChange={(e) => setCompetitorTag(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleTagCompetitor(); }}
+                        className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                      />
+                      <datalist id="competitor-names">
+                        {competitors.map(c => <option key={c.id} value={c.name} />)}
+                      </datalist>
+                      <button
+                        onClick={handleTagCompetitor}
+                        disabled={!competitorTag.trim()}
+                        className="px-3 py-2 text-xs font-bold bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white rounded-lg"
+                      >
+                        {findCompetitor(competitors, competitorTag) ? 'Add run' : 'Track'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Spy follow-up: apply the decoded formula to the user's own asset */}
+              {mode === AppMode.COMPETITOR_SPY && result.competitorInsights && (
+                <div className="bg-slate-800/40 border border-indigo-500/30 rounded-xl p-5 space-y-4">
+                  <div>
+                    <h3 className="flex items-center text-sm font-bold uppercase tracking-wider text-indigo-300">
+                      <Crosshair className="w-4 h-4 mr-2" /> Beat This
+                    </h3>
+                    <p className="text-xs text-slate-400 mt-1">Upload your own asset. We'll write it to this formula and show what was borrowed and how yours stands apart.</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {PLATFORM_OPTIONS.map((p) => (
+                      <button
+                        key={p.id}
+                        onClick={() => setPlatform(p.id)}
+                        className={`flex items-center justify-center p-2.5 rounded-lg border transition-all ${
+                          platform === p.id
+                            ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300'
+                            : 'bg-slate-900 border-slate-700 text-slate-500 hover:border-slate-500'
+                        }`}
+                        title={p.id}
+                      >
+                        <p.icon size={16} />
+                      </button>
+                    ))}
+                  </div>
+                  <FileUpload files={beatFiles} setFiles={setBeatFiles} />
+                  <button
+                    onClick={handleBeatCompetitor}
+                    disabled={beatFiles.length === 0 || isBusy}
+                    className="w-full flex items-center justify-center py-2.5 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm font-bold rounded-lg transition-colors"
+                  >
+                    <Crosshair className="w-4 h-4 mr-2" /> Beat this formula on {platform}
+                  </button>
+                </div>
+              )}
+            </div>
+          ) : crossPostResults ? (
+            <CrossPostView packages={crossPostResults} />
+          ) : variants ? (
+            <VariantComparison variants={variants} onChoose={showResult} />
           ) : trendResults ? (
             // TREND HUNTER RESULTS GRID
             <div className="space-y-6 animate-fade-in">
               <div className="bg-orange-900/20 border border-orange-500/30 p-6 rounded-xl">
                  <h2 className="text-xl font-bold text-white flex items-center">
                    <Flame className="w-6 h-6 mr-2 text-orange-500" />
-                   Viral Trends Detected for "{config.niche}"
+                   Viral Trends Detected for "{trendQuery?.niche || config.niche}"
+                   {trendQuery?.platform && <span className="ml-2 text-sm font-normal text-orange-300">on {trendQuery.platform}</span>}
                  </h2>
-                 <p className="text-slate-400 text-sm mt-1">Select a trend below to auto-generate a content strategy.</p>
+                 <div className="flex items-center justify-between mt-1">
+                   <p className="text-slate-400 text-sm">
+                     Select a trend below to auto-generate a content strategy.
+                     {trendResults.some(t => t.grounded === false) && (
+                       <span className="block text-xs text-red-300 mt-0.5">
+                         {trendResults.filter(t => t.grounded === false).length} of {trendResults.length} trends have no search source; verify them before posting.
+                       </span>
+                     )}
+                   </p>
+                   <button
+                     onClick={() => setShowCalendar(true)}
+                     className="flex items-center px-3 py-1.5 text-xs text-orange-200 bg-orange-900/30 border border-orange-500/30 rounded-lg hover:bg-orange-900/50 flex-shrink-0 ml-3"
+                   >
+                     <CalendarDays className="w-3.5 h-3.5 mr-1.5" /> Plan in Calendar
+                   </button>
+                 </div>
               </div>
               <div className="grid gap-4">
-                {trendResults.map((trend, idx) => (
-                  <div key={idx} className="bg-slate-800/50 border border-slate-700 hover:border-orange-500/50 hover:bg-slate-800 transition-all p-5 rounded-xl group relative overflow-hidden">
-                    <div className="flex justify-between items-start">
-                       <div className="flex-1">
-                          <h3 className="text-lg font-bold text-white mb-2 group-hover:text-orange-300 transition-colors">{trend.headline}</h3>
-                          <div className="mb-3">
-                             <span className="text-[10px] uppercase font-bold text-orange-400 bg-orange-900/30 px-2 py-1 rounded">Why it's Hot</span>
-                             <p className="text-sm text-slate-300 mt-1">{trend.whyItsHot}</p>
-                          </div>
-                          <div>
-                             <span className="text-[10px] uppercase font-bold text-indigo-400 bg-indigo-900/30 px-2 py-1 rounded">Content Idea</span>
-                             <p className="text-sm text-slate-300 mt-1">{trend.contentIdea}</p>
-                          </div>
-                       </div>
-                       <div className="ml-4">
-                          <button 
-                            onClick={() => handleUseTrend(trend)}
-                            className="bg-slate-700 hover:bg-orange-600 text-white p-2 rounded-lg transition-colors shadow-lg"
-                            title="Use this Trend"
-                          >
-                            <ArrowRight className="w-5 h-5" />
-                          </button>
-                       </div>
-                    </div>
-                  </div>
+                {trendDiff ? (
+                  <>
+                    {trendDiff.filter(d => d.status !== 'faded').map((d, idx) => (
+                      <TrendCard key={idx} trend={d.trend} status={d.status} onUse={handleUseTrend} />
+                    ))}
+                    {trendDiff.some(d => d.status === 'faded') && (
+                      <details className="bg-slate-900/40 border border-slate-700 rounded-xl p-4">
+                        <summary className="cursor-pointer text-xs uppercase font-bold text-slate-400">
+                          Faded since the last run ({trendDiff.filter(d => d.status === 'faded').length})
+                        </summary>
+                        <div className="grid gap-3 mt-3 opacity-70">
+                          {trendDiff.filter(d => d.status === 'faded').map((d, idx) => (
+                            <TrendCard key={idx} trend={d.trend} status={d.status} onUse={handleUseTrend} />
+                          ))}
+                        </div>
+                      </details>
+                    )}
+                  </>
+                ) : trendResults.map((trend, idx) => (
+                  <TrendCard key={idx} trend={trend} onUse={handleUseTrend} />
                 ))}
               </div>
             </div>
@@ -738,6 +1828,48 @@ const App: React.FC = () => {
         </div>
 
       </main>
+
+      {showHistory && (
+        <HistorySidebar
+          entries={historyEntries}
+          onRestore={handleRestoreHistory}
+          onTogglePin={handleTogglePinHistory}
+          onDelete={handleDeleteHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showCalendar && (
+        <ContentCalendar
+          trayItems={trayItemsFromHistory(historyEntries, trendResults || [])}
+          niche={config.niche}
+          onSuggestCadence={(niche, platforms) => suggestPostingCadence(niche, platforms, config, apiKey, llmSettings)}
+          onClose={() => setShowCalendar(false)}
+        />
+      )}
+
+      {hookAnalysis && (
+        <HookAnalysisView analysis={hookAnalysis} onClose={() => setHookAnalysis(null)} />
+      )}
+
+      {showCompetitors && (
+        <CompetitorLibrary
+          competitors={competitors}
+          onRemoveRun={handleRemoveCompetitorRun}
+          onDelete={handleDeleteCompetitor}
+          onClose={() => setShowCompetitors(false)}
+        />
+      )}
+
+      {showProfileManager && (
+        <BrandProfileManager
+          profiles={brandProfiles}
+          activeId={activeProfileId}
+          onSave={handleSaveProfiles}
+          onApply={(profile) => { handleApplyProfile(profile); setShowProfileManager(false); }}
+          onClose={() => setShowProfileManager(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,13 +1,56 @@
-import React from 'react';
-import { AnalysisResult, AppMode } from '../types';
-import { Copy, TrendingUp, Hash, Eye, MessageSquare, AlertTriangle, Flame, Share2, Download, Twitter, Linkedin, MessageCircle } from 'lucide-react';
+import React, { useState } from 'react';
+import { AnalysisResult, AppMode, Platform } from '../types';
+import { BrandField, BrandViolation, BRAND_FIELD_LABELS } from '../services/brandCompliance';
+import { charCount, countHashtags, PlatformIssue, PLATFORM_LIMITS } from '../services/platformRules';
+import { threadToCaption, tweetsOf } from '../services/twitterThread';
+import { EditableField, EDITABLE_FIELD_LABELS, getFieldText, isListField, setFieldText } from '../services/resultEdits';
+import HighlightedText from './HighlightedText';
+import ThreadEditor from './ThreadEditor';
+import CompetitorReport from './CompetitorReport';
+import { Copy, TrendingUp, Hash, Eye, MessageSquare, AlertTriangle, Flame, Share2, Download, Twitter, Linkedin, MessageCircle, ShieldCheck, ShieldAlert, Wand2, Loader2, Ruler, Scissors, Pencil, RefreshCw, Check, X, Clapperboard } from 'lucide-react';
 
 interface AnalysisResultViewProps {
   result: AnalysisResult;
   mode: AppMode;
+  brandViolations?: BrandViolation[];
+  brandGuardActive?: boolean;
+  onFixViolations?: () => void;
+  isFixing?: boolean;
+  // Platform limits only apply to publishable output (not Spy templates)
+  platform?: Platform;
+  platformIssues?: PlatformIssue[];
+  onRepairPlatform?: () => void;
+  isRepairing?: boolean;
+  // Manual edits (inline fields and the Twitter thread editor)
+  onChange?: (result: AnalysisResult) => void;
+  onRegenerateField?: (field: EditableField) => void;
+  regeneratingField?: EditableField | null;
+  // Partial result still arriving: empty fields show placeholders and tools are hidden
+  streaming?: boolean;
 }
 
-const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, mode }) => {
+// Pulsing bar standing in for a field that hasn't streamed in yet
+const Pending: React.FC<{ width?: string }> = ({ width = 'w-2/3' }) => (
+  <span className={`block h-3 my-1 ${width} bg-slate-700/60 rounded animate-pulse`} />
+);
+
+// "used / limit" badge; red past the hard limit, yellow past the recommended one
+const CharCounter: React.FC<{ count: number; max?: number; recommended?: number; unit?: string }> = ({ count, max, recommended, unit = '' }) => {
+  const limit = max ?? recommended;
+  if (limit === undefined) return null;
+  const color = max !== undefined && count > max
+    ? 'text-red-400 bg-red-900/30'
+    : recommended !== undefined && count > recommended
+      ? 'text-yellow-400 bg-yellow-900/20'
+      : 'text-slate-500 bg-slate-800';
+  return <span className={`text-[10px] font-mono px-1.5 py-0.5 rounded ${color}`}>{count} / {limit}{unit}</span>;
+};
+
+const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, mode, brandViolations = [], brandGuardActive = false, onFixViolations, isFixing = false, platform, platformIssues = [], onRepairPlatform, isRepairing = false, onChange, onRegenerateField, regeneratingField = null, streaming = false }) => {
+  const limits = platform ? PLATFORM_LIMITS[platform] : null;
+  const platformErrors = platformIssues.filter(i => i.severity === 'error');
+  const [editing, setEditing] = useState<{ field: EditableField; draft: string } | null>(null);
+
   const getScoreColor = (score: number) => {
     if (score >= 90) return 'text-green-400';
     if (score >= 70) return 'text-yellow-400';
@@ -15,7 +58,86 @@ const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, mode })
   };
 
   // Prepare content for sharing/exporting
-  const fullStrategyContent = `HEADLINE:\n${result.strategy.headline}\n\nCAPTION:\n${result.strategy.caption}\n\nCTA:\n${result.strategy.cta}\n\nHASHTAGS:\n${result.seo.hashtags.broad.join(' ')} ${result.seo.hashtags.niche.join(' ')}`;
+  const fullStrategyContent = `HEADLINE:\n${result.strategy.headline}\n\nCAPTION:\n${result.strategy.caption}\n\nCTA:\n${result.strategy.cta}\n\nHASHTAGS:\n${result.seo.hashtags.broad.join(' ')} ${result.seo.hashtags.niche.join(' ')}` + (result.shotList
+    ? `\n\nSHOT LIST:\n${result.shotList.map(shot => `${shot.index}. [${shot.duration}] ${shot.visual}${shot.onScreenText ? ` | Text: ${shot.onScreenText}` : ''}${shot.audio ? ` | Audio: ${shot.audio}` : ''}`).join('\n')}`
+    : '');
+
+  // Brand Guard spans for a given field (and hashtag index)
+  const spansFor = (field: BrandField, index?: number) =>
+    brandViolations
+      .filter(v => v.field === field && v.index === index && v.start !== undefined && v.end !== undefined)
+      .map(v => ({ start: v.start!, end: v.end!, title: v.message }));
+
+  const renderHashtag = (tier: 'broad' | 'niche' | 'specific', tag: string, i: number, color: string) => {
+    const spans = spansFor(`hashtags.${tier}`, i);
+    return (
+      <span key={i} className={`text-xs ${spans.length > 0 ? '' : color}`}>
+        <HighlightedText text={tag} spans={spans} />
+      </span>
+    );
+  };
+
+  // Pencil / regenerate buttons next to a field label
+  const renderFieldTools = (field: EditableField, canEdit = true) => !streaming && (
+    <span className="inline-flex items-center">
+      {onChange && canEdit && (
+        <button
+          onClick={() => setEditing({ field, draft: getFieldText(result, field) })}
+          className="p-1 text-slate-500 hover:text-indigo-300 transition-colors"
+          title={`Edit ${EDITABLE_FIELD_LABELS[field]}`}
+        >
+          <Pencil className="w-3 h-3" />
+        </button>
+      )}
+      {onRegenerateField && (
+        <button
+          onClick={() => onRegenerateField(field)}
+          disabled={regeneratingField !== null}
+          className="p-1 text-slate-500 hover:text-indigo-300 disabled:opacity-40 transition-colors"
+          title={`Regenerate ${EDITABLE_FIELD_LABELS[field]} only`}
+        >
+          {regeneratingField === field ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+        </button>
+      )}
+    </span>
+  );
+
+  const renderFieldEditor = (field: EditableField, multiline = false) => {
+    if (!editing || editing.field !== field) return null;
+    const inputClass = "w-full bg-slate-800 border border-indigo-500/50 rounded-md p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none";
+    const save = () => {
+      onChange?.(setFieldText(result, field, editing.draft));
+      setEditing(null);
+    };
+    return (
+      <div className="space-y-2 mt-1">
+        {multiline ? (
+          <textarea autoFocus rows={8} value={editing.draft} onChange={(e) => setEditing({ field, draft: e.target.value })} className={`${inputClass} resize-y`} />
+        ) : (
+          <input
+            autoFocus
+            value={editing.draft}
+            onChange={(e) => setEditing({ field, draft: e.target.value })}
+            onKeyDown={(e) => { if (e.key === 'Enter') save(); if (e.key === 'Escape') setEditing(null); }}
+            className={inputClass}
+          />
+        )}
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] text-slate-500">
+            {isListField(field) && (field === 'keywords' ? 'Separate keywords with commas' : 'Separate hashtags with spaces')}
+          </span>
+          <div className="flex space-x-2">
+            <button onClick={() => setEditing(null)} className="flex items-center px-2 py-1 text-xs text-slate-400 hover:text-white">
+              <X className="w-3 h-3 mr-1" /> Cancel
+            </button>
+            <button onClick={save} className="flex items-center px-2.5 py-1 text-xs bg-indigo-600 hover:bg-indigo-500 text-white rounded-md">
+              <Check className="w-3 h-3 mr-1" /> Save
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
 
   const handleSmartShare = async () => {
     if (navigator.share) {
@@ -63,6 +185,78 @@ const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, mode })
              <div><span className="font-bold text-indigo-300">CTA Strategy:</span> {result.competitorInsights.ctaStrategy}</div>
              <div><span className="font-bold text-indigo-300">Winning Formula:</span> {result.competitorInsights.formula}</div>
           </div>
+          {result.competitorInsights.assets && (
+            <CompetitorReport result={result} assets={result.competitorInsights.assets} streaming={streaming} />
+          )}
+        </div>
+      )}
+
+      {/* Brand Guard Compliance */}
+      {brandGuardActive && (
+        brandViolations.length === 0 ? (
+          <div className="bg-green-900/20 border border-green-500/30 p-4 rounded-xl flex items-center text-sm text-green-200">
+            <ShieldCheck className="w-5 h-5 mr-2 text-green-400" />
+            Brand Guard: no rule violations found.
+          </div>
+        ) : (
+          <div className="bg-red-900/20 border border-red-500/40 p-5 rounded-xl">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="flex items-center font-bold text-red-300">
+                <ShieldAlert className="w-5 h-5 mr-2" />
+                Brand Guard: {brandViolations.length} violation{brandViolations.length === 1 ? '' : 's'}
+              </h3>
+              {onFixViolations && (
+                <button
+                  onClick={onFixViolations}
+                  disabled={isFixing}
+                  className="flex items-center px-3 py-1.5 bg-red-600 hover:bg-red-500 disabled:bg-slate-700 text-white text-xs font-bold rounded-lg transition-colors"
+                >
+                  {isFixing ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5 mr-1.5" />}
+                  {isFixing ? 'Fixing...' : 'Fix Violations'}
+                </button>
+              )}
+            </div>
+            <ul className="space-y-1 text-xs text-red-100">
+              {brandViolations.map((v, i) => (
+                <li key={i} className="flex items-start">
+                  <span className="font-bold text-red-300 mr-2 flex-shrink-0">
+                    {v.field ? `${BRAND_FIELD_LABELS[v.field]}${v.index !== undefined ? ` #${v.index + 1}` : ''}` : 'Post'}:
+                  </span>
+                  {v.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      )}
+
+      {/* Platform Limits */}
+      {platform && platformIssues.length > 0 && (
+        <div className={`p-5 rounded-xl border ${platformErrors.length > 0 ? 'bg-red-900/20 border-red-500/40' : 'bg-yellow-900/10 border-yellow-500/30'}`}>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className={`flex items-center font-bold ${platformErrors.length > 0 ? 'text-red-300' : 'text-yellow-300'}`}>
+              <Ruler className="w-5 h-5 mr-2" />
+              {platform} Limits: {platformErrors.length} overflow{platformErrors.length === 1 ? '' : 's'}, {platformIssues.length - platformErrors.length} warning{platformIssues.length - platformErrors.length === 1 ? '' : 's'}
+            </h3>
+            {onRepairPlatform && platformErrors.length > 0 && (
+              <button
+                onClick={onRepairPlatform}
+                disabled={isRepairing}
+                className="flex items-center px-3 py-1.5 bg-red-600 hover:bg-red-500 disabled:bg-slate-700 text-white text-xs font-bold rounded-lg transition-colors"
+              >
+                {isRepairing ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <Scissors className="w-3.5 h-3.5 mr-1.5" />}
+                {isRepairing ? 'Shortening...' : 'Auto-Shorten'}
+              </button>
+            )}
+          </div>
+          <ul className="space-y-1 text-xs">
+            {platformIssues.map((issue, i) => (
+              <li key={i} className={issue.severity === 'error' ? 'text-red-100' : 'text-yellow-100'}>
+                <span className="font-bold mr-1">{issue.severity === 'error' ? 'Overflow:' : 'Warning:'}</span>
+                {issue.message} ({issue.actual}/{issue.limit})
+              </li>
+            ))}
+          </ul>
         </div>
       )}
 
@@ -76,11 +270,15 @@ const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, mode })
           <div className="space-y-3">
             <div>
               <span className="text-xs text-slate-500 block">Identified Hook</span>
-              <span className="text-slate-200 font-medium">{result.visualAudit.hookIdentified}</span>
+              {streaming && !result.visualAudit.hookIdentified ? <Pending width="w-1/2" /> : (
+                <span className="text-slate-200 font-medium">{result.visualAudit.hookIdentified}</span>
+              )}
             </div>
             <div>
               <span className="text-xs text-slate-500 block">Psychology Check</span>
-              <p className="text-slate-300 text-sm mt-1">{result.visualAudit.psychologyCheck}</p>
+              {streaming && !result.visualAudit.psychologyCheck ? <Pending /> : (
+                <p className="text-slate-300 text-sm mt-1">{result.visualAudit.psychologyCheck}</p>
+              )}
             </div>
           </div>
         </div>
@@ -91,9 +289,13 @@ const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, mode })
             <TrendingUp className="w-4 h-4 mr-2" /> Viral Prediction
           </h3>
           <div className="flex items-center space-x-4 mb-2">
-            <div className={`text-4xl font-bold ${getScoreColor(result.virality.score)}`}>
-              {result.virality.score}
-            </div>
+            {streaming && !result.virality.score ? (
+              <div className="w-12 h-10 bg-slate-700/60 rounded animate-pulse" />
+            ) : (
+              <div className={`text-4xl font-bold ${getScoreColor(result.virality.score)}`}>
+                {result.virality.score}
+              </div>
+            )}
             <div className="text-xs text-slate-400">
               / 100 <br /> Viral Score
             </div>
@@ -112,7 +314,7 @@ const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, mode })
 
           <div className="bg-slate-900/50 p-3 rounded border border-slate-700 text-sm text-slate-300">
             <AlertTriangle className="w-3 h-3 text-yellow-500 inline mr-2" />
-            {result.virality.gapAnalysis}
+            {streaming && !result.virality.gapAnalysis ? <Pending /> : result.virality.gapAnalysis}
           </div>
         </div>
       </div>
@@ -124,31 +326,84 @@ const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, mode })
             <MessageSquare className="w-5 h-5 mr-2 text-indigo-400" />
             The Strategy
           </h3>
+          {streaming ? (
+            <span className="text-xs flex items-center text-slate-500">
+              <Loader2 className="w-3 h-3 mr-1 animate-spin" /> Writing...
+            </span>
+          ) : (
           <button 
             onClick={() => navigator.clipboard.writeText(result.strategy.caption)}
             className="text-xs flex items-center text-indigo-400 hover:text-indigo-300 transition-colors"
           >
             <Copy className="w-3 h-3 mr-1" /> Copy Caption
           </button>
+          )}
         </div>
 
         <div className="space-y-4">
            <div className="bg-slate-900 p-4 rounded-lg border border-slate-700/50 relative">
-             <span className="absolute -top-2 left-4 px-2 bg-indigo-600 text-white text-[10px] uppercase font-bold rounded">Overlay Text</span>
-             <p className="text-lg font-bold text-white text-center mt-2 font-outline-1">{result.strategy.headline}</p>
+             <span className="absolute -top-2 left-4 px-2 bg-indigo-600 text-white text-[10px] uppercase font-bold rounded">{limits ? limits.headlineLabel : 'Overlay Text'}</span>
+             {limits && (
+               <span className="absolute -top-2 right-4">
+                 <CharCounter count={charCount(result.strategy.headline)} max={limits.headlineMax} recommended={limits.headlineRecommended} />
+               </span>
+             )}
+             {editing?.field === 'headline' ? renderFieldEditor('headline') : (
+               streaming && !result.strategy.headline ? <div className="flex justify-center mt-2"><Pending width="w-1/2" /></div> : (
+               <div className="flex items-start justify-center mt-2">
+                 <p className="text-lg font-bold text-white text-center font-outline-1"><HighlightedText text={result.strategy.headline} spans={spansFor('headline')} /></p>
+                 <span className="ml-2 mt-1 flex-shrink-0">{renderFieldTools('headline')}</span>
+               </div>
+               )
+             )}
            </div>
 
            <div className="bg-slate-900 p-4 rounded-lg border border-slate-700/50">
-             <span className="text-xs text-slate-500 uppercase font-bold mb-2 block">Caption / Script</span>
-             <p className="text-slate-200 whitespace-pre-wrap leading-relaxed">{result.strategy.caption}</p>
+             <div className="flex items-center justify-between mb-2">
+               <span className="text-xs text-slate-500 uppercase font-bold flex items-center">
+                 Caption / Script
+                 {/* Threads are edited tweet by tweet below */}
+                 <span className="ml-1">{renderFieldTools('caption', !result.strategy.thread)}</span>
+               </span>
+               {limits && <CharCounter count={charCount(result.strategy.caption)} max={limits.captionMax} />}
+             </div>
+             {streaming && !result.strategy.caption ? (
+               <div className="space-y-1"><Pending width="w-full" /><Pending width="w-5/6" /><Pending width="w-2/3" /></div>
+             ) : result.strategy.thread && result.strategy.thread.length > 0 && onChange ? (
+               <ThreadEditor
+                 thread={result.strategy.thread}
+                 maxLength={limits?.tweetMax}
+                 onChange={(thread) => onChange({ ...result, strategy: { ...result.strategy, thread, caption: threadToCaption(thread) } })}
+               />
+             ) : editing?.field === 'caption' ? renderFieldEditor('caption', true) : (
+               <p className="text-slate-200 whitespace-pre-wrap leading-relaxed"><HighlightedText text={result.strategy.caption} spans={spansFor('caption')} /></p>
+             )}
+             {limits?.tweetMax !== undefined && !(result.strategy.thread && onChange) && (
+               <div className="flex flex-wrap gap-1 mt-3 items-center">
+                 <span className="text-[10px] text-slate-500 uppercase font-bold mr-1">Tweets:</span>
+                 {tweetsOf(result).map((tweet, i) => (
+                   <CharCounter key={i} count={charCount(tweet)} max={limits.tweetMax} />
+                 ))}
+               </div>
+             )}
+             {limits?.firstLineTruncation !== undefined && charCount(result.strategy.caption.split('\n')[0]) > limits.firstLineTruncation && (
+               <p className="mt-3 text-[11px] text-yellow-300/80 border-t border-slate-700/50 pt-2">
+                 <span className="font-bold">Visible before "...more": </span>
+                 {Array.from(result.strategy.caption).slice(0, limits.firstLineTruncation).join('')}…
+               </p>
+             )}
            </div>
 
-           <div className="bg-gradient-to-r from-indigo-900/50 to-purple-900/50 p-4 rounded-lg border border-indigo-500/20 flex items-center justify-between">
-             <span className="text-xs text-indigo-300 uppercase font-bold">Call To Action</span>
-             <span className="font-bold text-white">{result.strategy.cta}</span>
+           <div className="bg-gradient-to-r from-indigo-900/50 to-purple-900/50 p-4 rounded-lg border border-indigo-500/20">
+             <div className="flex items-center justify-between">
+               <span className="text-xs text-indigo-300 uppercase font-bold flex items-center">Call To Action <span className="ml-1">{renderFieldTools('cta')}</span></span>
+               {streaming && !result.strategy.cta ? <Pending width="w-1/3" /> : editing?.field !== 'cta' && <span className="font-bold text-white"><HighlightedText text={result.strategy.cta} spans={spansFor('cta')} /></span>}
+             </div>
+             {renderFieldEditor('cta')}
            </div>
 
-           {/* Share & Export Row */}
+           {/* Share & Export Row (only once the result is final) */}
+           {!streaming && (
            <div className="pt-4 mt-2 border-t border-slate-700/50 flex flex-wrap gap-3 items-center justify-between">
              <div className="flex gap-2">
                <button 
@@ -195,43 +450,85 @@ const AnalysisResultView: React.FC<AnalysisResultViewProps> = ({ result, mode })
                 Download .TXT
              </button>
            </div>
+           )}
         </div>
       </div>
 
+      {/* Shot List (Create from a brief) */}
+      {result.shotList && (
+        <div className="bg-slate-800/40 border border-slate-700 p-5 rounded-xl backdrop-blur-sm">
+          <h3 className="text-indigo-400 font-semibold mb-1 text-sm uppercase tracking-wider flex items-center">
+            <Clapperboard className="w-4 h-4 mr-2" /> Shot List
+          </h3>
+          {result.visualAudit.summary && <p className="text-xs text-slate-400 mb-4">{result.visualAudit.summary}</p>}
+          <ol className="space-y-2">
+            {result.shotList.map(shot => (
+              <li key={shot.index} className="flex gap-3 p-3 bg-slate-900/50 border border-slate-700/60 rounded-lg">
+                <div className="flex-shrink-0 w-14 text-center">
+                  <div className="text-lg font-bold text-indigo-300">{shot.index}</div>
+                  <div className="text-[10px] font-mono text-slate-500">{shot.duration}</div>
+                </div>
+                <div className="min-w-0 space-y-1 text-sm">
+                  <p className="text-slate-200">{shot.visual}</p>
+                  {shot.onScreenText && <p className="text-xs text-yellow-300/90"><span className="text-slate-500">Text:</span> {shot.onScreenText}</p>}
+                  {shot.audio && <p className="text-xs text-slate-400"><span className="text-slate-500">Audio:</span> {shot.audio}</p>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       {/* SEO Data */}
       <div className="bg-slate-800/40 border border-slate-700 p-5 rounded-xl backdrop-blur-sm">
-        <h3 className="text-indigo-400 font-semibold mb-4 text-sm uppercase tracking-wider flex items-center">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-indigo-400 font-semibold text-sm uppercase tracking-wider flex items-center">
             <Hash className="w-4 h-4 mr-2" /> SEO & Virality Data
-        </h3>
+          </h3>
+          {limits && <CharCounter count={countHashtags(result)} max={limits.hashtagMax} recommended={limits.hashtagRecommended} unit=" tags" />}
+        </div>
         
         <div className="space-y-4">
           <div>
-            <span className="text-xs text-slate-500 block mb-1">Alt Text (Hidden Keywords)</span>
-            <div className="flex flex-wrap gap-2">
-              {result.seo.hiddenKeywords.map((k, i) => (
-                <span key={i} className="text-xs bg-slate-700 text-slate-300 px-2 py-1 rounded-full">{k}</span>
-              ))}
-            </div>
+            <span className="text-xs text-slate-500 flex items-center mb-1">Alt Text (Hidden Keywords) <span className="ml-1">{renderFieldTools('keywords')}</span></span>
+            {editing?.field === 'keywords' ? renderFieldEditor('keywords', true) : (
+              streaming && result.seo.hiddenKeywords.length === 0 ? <Pending width="w-1/2" /> : (
+              <div className="flex flex-wrap gap-2">
+                {result.seo.hiddenKeywords.map((k, i) => (
+                  <span key={i} className="text-xs bg-slate-700 text-slate-300 px-2 py-1 rounded-full">{k}</span>
+                ))}
+              </div>
+              )
+            )}
           </div>
 
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 pt-2 border-t border-slate-700/50">
              <div>
-               <span className="text-[10px] uppercase text-slate-500 font-bold">Broad (1M+)</span>
-               <div className="flex flex-wrap gap-1 mt-1">
-                 {result.seo.hashtags.broad.map((t, i) => <span key={i} className="text-xs text-blue-400">{t}</span>)}
-               </div>
+               <span className="text-[10px] uppercase text-slate-500 font-bold flex items-center">Broad (1M+) <span className="ml-1">{renderFieldTools('hashtags.broad')}</span></span>
+               {editing?.field === 'hashtags.broad' ? renderFieldEditor('hashtags.broad', true) : (
+                 <div className="flex flex-wrap gap-1 mt-1">
+                   {streaming && result.seo.hashtags.broad.length === 0 && <Pending width="w-3/4" />}
+                   {result.seo.hashtags.broad.map((t, i) => renderHashtag('broad', t, i, 'text-blue-400'))}
+                 </div>
+               )}
              </div>
              <div>
-               <span className="text-[10px] uppercase text-slate-500 font-bold">Niche (100k+)</span>
-               <div className="flex flex-wrap gap-1 mt-1">
-                 {result.seo.hashtags.niche.map((t, i) => <span key={i} className="text-xs text-indigo-400">{t}</span>)}
-               </div>
+               <span className="text-[10px] uppercase text-slate-500 font-bold flex items-center">Niche (100k+) <span className="ml-1">{renderFieldTools('hashtags.niche')}</span></span>
+               {editing?.field === 'hashtags.niche' ? renderFieldEditor('hashtags.niche', true) : (
+                 <div className="flex flex-wrap gap-1 mt-1">
+                   {streaming && result.seo.hashtags.niche.length === 0 && <Pending width="w-3/4" />}
+                   {result.seo.hashtags.niche.map((t, i) => renderHashtag('niche', t, i, 'text-indigo-400'))}
+                 </div>
+               )}
              </div>
              <div>
-               <span className="text-[10px] uppercase text-slate-500 font-bold">Specific (&lt;50k)</span>
-               <div className="flex flex-wrap gap-1 mt-1">
-                 {result.seo.hashtags.specific.map((t, i) => <span key={i} className="text-xs text-purple-400">{t}</span>)}
-               </div>
+               <span className="text-[10px] uppercase text-slate-500 font-bold flex items-center">Specific (&lt;50k) <span className="ml-1">{renderFieldTools('hashtags.specific')}</span></span>
+               {editing?.field === 'hashtags.specific' ? renderFieldEditor('hashtags.specific', true) : (
+                 <div className="flex flex-wrap gap-1 mt-1">
+                   {streaming && result.seo.hashtags.specific.length === 0 && <Pending width="w-3/4" />}
+                   {result.seo.hashtags.specific.map((t, i) => renderHashtag('specific', t, i, 'text-purple-400'))}
+                 </div>
+               )}
              </div>
           </div>
         </div>
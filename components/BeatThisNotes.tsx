@@ -0,0 +1,49 @@
+import React from 'react';
+import { BeatThisNotes as Notes } from '../types';
+import { Crosshair, Repeat, Sparkles } from 'lucide-react';
+
+interface BeatThisNotesProps {
+  notes: Notes;
+}
+
+// Side panel for a "beat this" result: what came from the competitor formula, what's new
+const BeatThisNotes: React.FC<BeatThisNotesProps> = ({ notes }) => (
+  <aside className="bg-indigo-900/20 border border-indigo-500/30 rounded-xl p-5 space-y-5 text-sm">
+    <div>
+      <h3 className="flex items-center text-sm font-bold uppercase tracking-wider text-indigo-300 mb-2">
+        <Crosshair className="w-4 h-4 mr-2" /> Beat This
+      </h3>
+      {notes.formula && (
+        <p className="text-xs text-slate-400">
+          Modelled on <span className="text-indigo-200 font-medium">{notes.formula}</span>
+        </p>
+      )}
+    </div>
+
+    <div>
+      <h4 className="flex items-center text-[10px] font-bold uppercase text-slate-500 mb-2">
+        <Repeat className="w-3 h-3 mr-1" /> Borrowed
+      </h4>
+      <ul className="space-y-3">
+        {notes.borrowed.map((b, i) => (
+          <li key={i} className="border-l-2 border-indigo-500/50 pl-3">
+            <div className="font-semibold text-slate-200">{b.element}</div>
+            {b.fromCompetitor && <div className="text-xs text-slate-500 mt-0.5">Them: {b.fromCompetitor}</div>}
+            <div className="text-xs text-slate-300 mt-0.5">You: {b.inThisPost}</div>
+          </li>
+        ))}
+      </ul>
+    </div>
+
+    <div>
+      <h4 className="flex items-center text-[10px] font-bold uppercase text-slate-500 mb-2">
+        <Sparkles className="w-3 h-3 mr-1" /> How yours stands apart
+      </h4>
+      <ul className="space-y-1.5 list-disc list-inside text-xs text-green-200/90">
+        {notes.differentiators.map((d, i) => <li key={i}>{d}</li>)}
+      </ul>
+    </div>
+  </aside>
+);
+
+export default BeatThisNotes;
@@ -0,0 +1,209 @@
+import React, { useRef, useState } from 'react';
+import { BrandProfile, Platform } from '../types';
+import { createBrandProfile, duplicateBrandProfile, exportBrandProfiles, importBrandProfiles } from '../services/brandProfiles';
+import { X, Plus, Copy, Trash2, Upload, Download, Check, ShieldCheck } from 'lucide-react';
+
+interface BrandProfileManagerProps {
+  profiles: BrandProfile[];
+  activeId: string | null;
+  onSave: (profiles: BrandProfile[]) => void;
+  onApply: (profile: BrandProfile) => void;
+  onClose: () => void;
+}
+
+const splitList = (value: string) => value.split(/[,\n]/).map(v => v.trim()).filter(Boolean);
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-xs text-white focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const BrandProfileManager: React.FC<BrandProfileManagerProps> = ({ profiles, activeId, onSave, onApply, onClose }) => {
+  const importRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(activeId || profiles[0]?.id || null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const selected = profiles.find(p => p.id === selectedId) || null;
+
+  const updateSelected = (patch: Partial<BrandProfile>) => {
+    if (!selected) return;
+    onSave(profiles.map(p => p.id === selected.id ? { ...p, ...patch, updatedAt: Date.now() } : p));
+  };
+
+  const handleCreate = () => {
+    const profile = createBrandProfile();
+    onSave([...profiles, profile]);
+    setSelectedId(profile.id);
+  };
+
+  const handleDuplicate = () => {
+    if (!selected) return;
+    const copy = duplicateBrandProfile(selected);
+    onSave([...profiles, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !confirm(`Delete brand profile "${selected.name}"?`)) return;
+    const remaining = profiles.filter(p => p.id !== selected.id);
+    onSave(remaining);
+    setSelectedId(remaining[0]?.id || null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportBrandProfiles(profiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `brand-profiles-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onSave(importBrandProfiles(await file.text(), profiles));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-hidden bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="font-bold text-white flex items-center">
+            <ShieldCheck className="w-5 h-5 mr-2 text-indigo-400" />
+            Brand Profiles
+          </h2>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => importRef.current?.click()} className="flex items-center px-3 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-300">
+              <Upload className="w-3.5 h-3.5 mr-1.5" /> Import JSON
+            </button>
+            <button onClick={handleExport} disabled={profiles.length === 0} className="flex items-center px-3 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-300 disabled:opacity-40">
+              <Download className="w-3.5 h-3.5 mr-1.5" /> Export All
+            </button>
+            <input type="file" ref={importRef} className="hidden" accept="application/json,.json" onChange={handleImport} />
+            <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {importError && (
+          <div className="px-6 py-2 bg-red-900/30 text-red-200 text-xs border-b border-red-500/30">{importError}</div>
+        )}
+
+        <div className="flex flex-1 min-h-0">
+          {/* Profile List */}
+          <div className="w-56 border-r border-slate-700 p-3 space-y-1 overflow-y-auto">
+            {profiles.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setSelectedId(p.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center justify-between ${
+                  p.id === selectedId ? 'bg-indigo-600/20 text-indigo-200 border border-indigo-500/40' : 'text-slate-300 hover:bg-slate-800 border border-transparent'
+                }`}
+              >
+                <span className="truncate">{p.name}</span>
+                {p.id === activeId && <Check className="w-3.5 h-3.5 text-green-400 flex-shrink-0" />}
+              </button>
+            ))}
+            <button onClick={handleCreate} className="w-full flex items-center justify-center px-3 py-2 mt-2 text-xs text-indigo-300 border border-dashed border-slate-600 rounded-lg hover:border-indigo-500">
+              <Plus className="w-3.5 h-3.5 mr-1" /> New Profile
+            </button>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 p-6 overflow-y-auto">
+            {selected ? (
+              <div className="space-y-4">
+                <div>
+                  <label className="text-xs font-bold text-slate-400 uppercase mb-1 block">Profile Name</label>
+                  <input className={inputClass} value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} />
+                </div>
+                <div>
+                  <label className="text-xs font-bold text-slate-400 uppercase mb-1 block">Voice Description</label>
+                  <textarea
+                    className={`${inputClass} h-20 resize-none`}
+                    placeholder="e.g. Warm, witty, never salesy. Short sentences."
+                    value={selected.voiceDescription}
+                    onChange={(e) => updateSelected({ voiceDescription: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <label className="text-xs font-bold text-slate-400 uppercase mb-1 block">Forbidden Words</label>
+                    <textarea
+                      className={`${inputClass} h-20 resize-none`}
+                      placeholder="cheap, guaranteed"
+                      defaultValue={selected.forbiddenWords.join(', ')}
+                      key={`forbidden-${selected.id}`}
+                      onBlur={(e) => updateSelected({ forbiddenWords: splitList(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-bold text-slate-400 uppercase mb-1 block">Mandatory Mentions</label>
+                    <textarea
+                      className={`${inputClass} h-20 resize-none`}
+                      placeholder="Sustainability, @brand"
+                      defaultValue={selected.mandatoryMentions.join(', ')}
+                      key={`mandatory-${selected.id}`}
+                      onBlur={(e) => updateSelected({ mandatoryMentions: splitList(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-bold text-slate-400 uppercase mb-1 block">Preferred Hashtags</label>
+                    <textarea
+                      className={`${inputClass} h-20 resize-none`}
+                      placeholder="#brand, #campaign"
+                      defaultValue={selected.preferredHashtags.join(', ')}
+                      key={`hashtags-${selected.id}`}
+                      onBlur={(e) => updateSelected({ preferredHashtags: splitList(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <input className={inputClass} placeholder="Default Geography" value={selected.geography} onChange={(e) => updateSelected({ geography: e.target.value })} />
+                  <input className={inputClass} placeholder="Default Language" value={selected.targetLanguage} onChange={(e) => updateSelected({ targetLanguage: e.target.value })} />
+                  <input className={inputClass} placeholder="Default Audience" value={selected.targetAudience} onChange={(e) => updateSelected({ targetAudience: e.target.value })} />
+                  <input className={inputClass} placeholder="Default Demographics" value={selected.demographics} onChange={(e) => updateSelected({ demographics: e.target.value })} />
+                </div>
+                <div>
+                  <label className="text-xs font-bold text-slate-400 uppercase mb-1 block">Default Platform</label>
+                  <select className={inputClass} value={selected.platform} onChange={(e) => updateSelected({ platform: e.target.value as Platform })}>
+                    {Object.values(Platform).map(p => <option key={p} value={p}>{p}</option>)}
+                  </select>
+                </div>
+
+                <div className="flex items-center justify-between pt-4 border-t border-slate-700/50">
+                  <div className="flex space-x-2">
+                    <button onClick={handleDuplicate} className="flex items-center px-3 py-2 text-xs bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-300">
+                      <Copy className="w-3.5 h-3.5 mr-1.5" /> Duplicate
+                    </button>
+                    <button onClick={handleDelete} className="flex items-center px-3 py-2 text-xs bg-red-900/20 hover:bg-red-900/40 border border-red-500/30 rounded-lg text-red-300">
+                      <Trash2 className="w-3.5 h-3.5 mr-1.5" /> Delete
+                    </button>
+                  </div>
+                  <button onClick={() => onApply(selected)} className="flex items-center px-4 py-2 text-sm font-bold bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white">
+                    <Check className="w-4 h-4 mr-1.5" /> Apply to Workspace
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center text-slate-500 text-sm">
+                <p>No brand profiles yet.</p>
+                <button onClick={handleCreate} className="mt-3 text-indigo-400 hover:text-indigo-300">Create your first profile</button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandProfileManager;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Competitor, CompetitorRun, HookType } from '../types';
+import { diffCompetitorRuns, INSIGHT_FIELD_LABELS, InsightField, runHookMix, runMonthLabel } from '../services/competitorLibrary';
+import { diffWords } from '../services/textDiff';
+import { BookMarked, Trash2, X } from 'lucide-react';
+
+interface CompetitorLibraryProps {
+  competitors: Competitor[];
+  onRemoveRun: (competitor: Competitor, run: CompetitorRun) => void;
+  onDelete: (competitor: Competitor) => void;
+  onClose: () => void;
+}
+
+const HOOK_COLORS: Record<HookType, string> = {
+  [HookType.INTRIGUING_QUESTIONS]: 'bg-sky-500',
+  [HookType.BOLD_STATEMENTS]: 'bg-yellow-500',
+  [HookType.COMPELLING_VISUALS]: 'bg-pink-500',
+  [HookType.STORYTELLING_SNIPPETS]: 'bg-purple-500',
+  [HookType.URGENCY_SCARCITY]: 'bg-red-500',
+  [HookType.PROBLEM_SOLUTION]: 'bg-emerald-500',
+  [HookType.AUTHORITY]: 'bg-indigo-500',
+};
+
+const FIELDS = Object.keys(INSIGHT_FIELD_LABELS) as InsightField[];
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+// Words that are new since the older run are highlighted
+const ChangedText: React.FC<{ base: string; text: string }> = ({ base, text }) => (
+  <>
+    {diffWords(base, text).map((t, i) => t.changed
+      ? <mark key={i} className="bg-amber-500/20 text-amber-200 rounded">{t.text}</mark>
+      : <React.Fragment key={i}>{t.text}</React.Fragment>)}
+  </>
+);
+
+// One stacked bar of a run's hook mix
+const HookMixBar: React.FC<{ run: CompetitorRun }> = ({ run }) => (
+  <div className="flex h-3 w-full rounded-full overflow-hidden bg-slate-800">
+    {runHookMix(run).map(h => (
+      <div key={h.hook} className={HOOK_COLORS[h.hook]} style={{ width: percent(h.share) }} title={`${h.hook}: ${percent(h.share)}`} />
+    ))}
+  </div>
+);
+
+const CompetitorLibrary: React.FC<CompetitorLibraryProps> = ({ competitors, onRemoveRun, onDelete, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(competitors[0]?.id ?? null);
+  const selected = competitors.find(c => c.id === selectedId) || competitors[0];
+  const chronological = selected ? [...selected.runs].reverse() : [];
+  const usedHooks = Object.values(HookType).filter(hook => selected?.runs.some(run => runHookMix(run).some(h => h.hook === hook)));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-5xl h-[90vh] overflow-hidden bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="font-bold text-white flex items-center">
+            <BookMarked className="w-5 h-5 mr-2 text-indigo-400" />
+            Competitor Library
+            <span className="ml-2 text-xs text-slate-500 font-normal">{competitors.length} tracked</span>
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {competitors.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center p-8 text-sm text-slate-500 text-center">
+            No competitors yet. Run Competitor Spy, then file the result under the account it decoded.
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Competitor list */}
+            <div className="w-56 flex-shrink-0 border-r border-slate-700 overflow-y-auto p-3 space-y-1">
+              {competitors.map(c => (
+                <div
+                  key={c.id}
+                  onClick={() => setSelectedId(c.id)}
+                  className={`group flex items-center p-2 rounded-lg cursor-pointer text-xs ${
+                    c.id === selected?.id ? 'bg-indigo-600/20 border border-indigo-500/40' : 'border border-transparent hover:bg-slate-800'
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-slate-200 font-medium truncate">{c.name}</div>
+                    <div className="text-[10px] text-slate-500">{c.runs.length} run{c.runs.length === 1 ? '' : 's'}</div>
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(c); }}
+                    className="p-1 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                    title="Delete competitor"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {/* Timeline */}
+            {selected && (
+              <div className="flex-1 overflow-y-auto p-6 space-y-6">
+                {selected.runs.length === 0 ? (
+                  <p className="text-sm text-slate-500">No Spy runs filed under {selected.name} yet.</p>
+                ) : (
+                  <>
+                    <div className="p-4 bg-slate-800/40 border border-slate-700 rounded-xl">
+                      <h3 className="text-xs font-bold uppercase text-indigo-300 mb-3">Hook mix over time</h3>
+                      <div className="space-y-2">
+                        {chronological.map(run => (
+                          <div key={run.id} className="flex items-center gap-3">
+                            <span className="w-28 flex-shrink-0 text-[11px] text-slate-400">{new Date(run.runAt).toLocaleDateString()}</span>
+                            <HookMixBar run={run} />
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap gap-3 mt-3">
+                        {usedHooks.map(hook => (
+                          <span key={hook} className="flex items-center text-[10px] text-slate-400">
+                            <span className={`w-2 h-2 rounded-full mr-1 ${HOOK_COLORS[hook]}`} /> {hook}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+
+                    <ol className="relative border-l border-slate-700 ml-2 space-y-6">
+                      {selected.runs.map((run, i) => {
+                        const previous = selected.runs[i + 1];
+                        const diff = previous && diffCompetitorRuns(previous, run);
+                        return (
+                          <li key={run.id} className="ml-5">
+                            <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-indigo-500 border-2 border-slate-900" />
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <h4 className="text-sm font-bold text-white">{runMonthLabel(run)}</h4>
+                                <p className="text-[10px] text-slate-500">
+                                  {new Date(run.runAt).toLocaleString()} · {run.fileCount} asset{run.fileCount === 1 ? '' : 's'}
+                                  {diff && ` · ${diff.changedFields.length === 0 ? 'no strategy change' : `${diff.changedFields.length} change${diff.changedFields.length === 1 ? '' : 's'} since ${runMonthLabel(previous)}`}`}
+                                </p>
+                              </div>
+                              <button
+                                onClick={() => onRemoveRun(selected, run)}
+                                className="p-1 text-slate-600 hover:text-red-400"
+                                title="Remove this run"
+                              >
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                            <div className="mt-2 p-4 bg-slate-800/40 border border-slate-700 rounded-xl space-y-3 text-sm">
+                              {run.summary && <p className="text-slate-400 italic text-xs">"{run.summary}"</p>}
+                              {FIELDS.map(field => {
+                                const changed = diff?.changedFields.includes(field);
+                                return (
+                                  <div key={field}>
+                                    <span className={`text-[10px] uppercase font-bold ${changed ? 'text-amber-300' : 'text-slate-500'}`}>
+                                      {INSIGHT_FIELD_LABELS[field]}{changed && ' · changed'}
+                                    </span>
+                                    <p className="text-slate-200">
+                                      {changed ? <ChangedText base={previous.insights[field]} text={run.insights[field]} /> : run.insights[field]}
+                                    </p>
+                                  </div>
+                                );
+                              })}
+                              <div>
+                                <span className="text-[10px] uppercase font-bold text-slate-500">Hook mix</span>
+                                <div className="mt-1 space-y-1">
+                                  {(diff ? diff.hooks : runHookMix(run).map(h => ({ hook: h.hook, current: h.share, delta: 0 }))).map(h => (
+                                    <div key={h.hook} className="flex items-center text-xs">
+                                      <span className={`w-2 h-2 rounded-full mr-2 ${HOOK_COLORS[h.hook]}`} />
+                                      <span className="flex-1 text-slate-300">{h.hook}</span>
+                                      <span className="font-mono text-slate-400 w-10 text-right">{percent(h.current)}</span>
+                                      {diff && (
+                                        <span className={`font-mono w-14 text-right ${h.delta > 0 ? 'text-green-400' : h.delta < 0 ? 'text-red-400' : 'text-slate-600'}`}>
+                                          {h.delta > 0 ? '+' : ''}{Math.round(h.delta * 100)} pts
+                                        </span>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompetitorLibrary;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { AnalysisResult, CompetitorAsset } from '../types';
+import { ASSET_COLUMNS, AssetSortKey, competitorReportToCsv, hookDistribution, sortAssets } from '../services/competitorReport';
+import { ArrowDown, ArrowUp, BarChart3, Download, Quote } from 'lucide-react';
+
+interface CompetitorReportProps {
+  result: AnalysisResult;
+  assets: CompetitorAsset[];
+  streaming?: boolean; // Rows still arriving: sorting and export wait for the final report
+}
+
+// Hook mix and recurring phrases as bars, then the per-asset table
+const CompetitorReport: React.FC<CompetitorReportProps> = ({ result, assets, streaming = false }) => {
+  const [sort, setSort] = useState<{ key: AssetSortKey; ascending: boolean }>({ key: 'fileIndex', ascending: true });
+  const hooks = hookDistribution(assets);
+  const phrases = result.competitorInsights?.recurringPhrases || [];
+  const rows = streaming ? assets : sortAssets(assets, sort.key, sort.ascending);
+
+  const toggleSort = (key: AssetSortKey) =>
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : true }));
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([competitorReportToCsv(result)], { type: 'text/csv' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `competitor-report-${Date.now()}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="p-4 bg-slate-900/50 rounded-lg border border-indigo-500/20">
+          <h4 className="text-xs font-bold uppercase text-indigo-300 mb-3 flex items-center">
+            <BarChart3 className="w-3.5 h-3.5 mr-1.5" /> Hook Mix
+          </h4>
+          <div className="space-y-2">
+            {hooks.map(h => (
+              <div key={h.hook}>
+                <div className="flex justify-between text-[11px] text-slate-300 mb-0.5">
+                  <span>{h.hook}</span>
+                  <span className="font-mono text-slate-500">{h.count} · {Math.round(h.share * 100)}%</span>
+                </div>
+                <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${h.share * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-900/50 rounded-lg border border-indigo-500/20">
+          <h4 className="text-xs font-bold uppercase text-indigo-300 mb-3 flex items-center">
+            <Quote className="w-3.5 h-3.5 mr-1.5" /> Recurring Phrases
+          </h4>
+          {phrases.length === 0 ? (
+            <p className="text-[11px] text-slate-500">No wording repeats across the set.</p>
+          ) : (
+            <div className="space-y-2">
+              {phrases.map(p => (
+                <div key={p.phrase}>
+                  <div className="flex justify-between text-[11px] text-slate-300 mb-0.5">
+                    <span className="truncate mr-2">"{p.phrase}"</span>
+                    <span className="font-mono text-slate-500">{p.count}/{assets.length}</span>
+                  </div>
+                  <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-purple-500 rounded-full" style={{ width: `${Math.min(1, p.count / assets.length) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-slate-900/50 rounded-lg border border-indigo-500/20 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-indigo-500/20">
+          <h4 className="text-xs font-bold uppercase text-indigo-300">Per-Asset Breakdown</h4>
+          {!streaming && (
+            <button onClick={handleExport} className="flex items-center text-[10px] uppercase font-bold text-slate-400 hover:text-white">
+              <Download className="w-3 h-3 mr-1" /> CSV
+            </button>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-left">
+            <thead className="text-[10px] uppercase text-slate-500">
+              <tr>
+                {ASSET_COLUMNS.map(col => (
+                  <th key={col.key} className="px-3 py-2 font-bold whitespace-nowrap">
+                    <button onClick={() => toggleSort(col.key)} disabled={streaming} className="flex items-center hover:text-slate-300">
+                      {col.label}
+                      {sort.key === col.key && !streaming && (sort.ascending ? <ArrowUp className="w-3 h-3 ml-0.5" /> : <ArrowDown className="w-3 h-3 ml-0.5" />)}
+                    </button>
+                  </th>
+                ))}
+                <th className="px-3 py-2 font-bold">Colors</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {rows.map(a => (
+                <tr key={a.fileIndex} className="text-slate-300 align-top">
+                  <td className="px-3 py-2 font-mono text-slate-500">{a.fileIndex}</td>
+                  <td className="px-3 py-2 max-w-[8rem] truncate" title={a.fileName}>{a.fileName || `Input ${a.fileIndex}`}</td>
+                  <td className="px-3 py-2 text-indigo-200 whitespace-nowrap">{a.hookType}</td>
+                  <td className="px-3 py-2 min-w-[8rem]">{a.pacing}</td>
+                  <td className="px-3 py-2 min-w-[8rem]">{a.cta}</td>
+                  <td className="px-3 py-2 min-w-[8rem] italic">{a.onScreenText}</td>
+                  <td className="px-3 py-2 min-w-[8rem]">{a.format}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex gap-1">
+                      {a.dominantColors.map(color => (
+                        <span key={color} className="w-4 h-4 rounded border border-slate-600" style={{ backgroundColor: color }} title={color} />
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompetitorReport;
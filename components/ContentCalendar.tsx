@@ -0,0 +1,376 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalendarEntry, Platform, PostingCadence } from '../types';
+import {
+  addDays, CalendarSource, CalendarView, createCalendarEntry, deleteCalendarEntry, entriesToCsv, entriesToIcs, isSuggestedDay,
+  listCalendarEntries, loadPostingCadence, monthDates, saveCalendarEntry, savePostingCadence, slotOf, sortCalendarEntries, startOfWeek, suggestedTime,
+  timeInSlot, TIME_SLOTS, toDateKey, TrayItem, WEEKDAY_LABELS, weekDates
+} from '../services/contentCalendar';
+import { CalendarDays, ChevronLeft, ChevronRight, Download, Flame, GripVertical, Loader2, Sparkles, Trash2, Wand2, X } from 'lucide-react';
+
+interface ContentCalendarProps {
+  trayItems: TrayItem[];
+  niche: string;
+  onSuggestCadence: (niche: string, platforms: Platform[]) => Promise<PostingCadence[]>;
+  onClose: () => void;
+}
+
+// What is being dragged: a new item from the tray or an entry already on the grid
+type DragItem = { kind: 'source'; source: CalendarSource } | { kind: 'entry'; id: string };
+
+const PLATFORM_COLORS: Record<Platform, string> = {
+  [Platform.INSTAGRAM]: 'bg-pink-600/30 border-pink-500/50 text-pink-100',
+  [Platform.TIKTOK]: 'bg-cyan-600/30 border-cyan-500/50 text-cyan-100',
+  [Platform.YOUTUBE]: 'bg-red-600/30 border-red-500/50 text-red-100',
+  [Platform.LINKEDIN]: 'bg-blue-600/30 border-blue-500/50 text-blue-100',
+  [Platform.TWITTER]: 'bg-slate-500/30 border-slate-400/50 text-slate-100',
+  [Platform.FACEBOOK]: 'bg-indigo-600/30 border-indigo-500/50 text-indigo-100',
+};
+
+const MONTH_CHIP_LIMIT = 3;
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-xs text-white focus:ring-1 focus:ring-indigo-500 outline-none";
+
+const downloadText = (text: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const sourceTitle = (source: CalendarSource) =>
+  source.kind === 'trend' ? source.trend.headline : source.result.strategy.headline;
+
+const ContentCalendar: React.FC<ContentCalendarProps> = ({ trayItems, niche: initialNiche, onSuggestCadence, onClose }) => {
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  // Platform for dropped trends; also drives the suggested-day highlight
+  const [dropPlatform, setDropPlatform] = useState<Platform>(Platform.INSTAGRAM);
+  const [platformFilter, setPlatformFilter] = useState<Platform | 'ALL'>('ALL');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState<string | null>(null);
+  const dragging = useRef<DragItem | null>(null);
+
+  const [storedCadence] = useState(loadPostingCadence);
+  const [niche, setNiche] = useState(initialNiche || storedCadence?.niche || '');
+  const [cadence, setCadence] = useState<PostingCadence[]>(storedCadence?.cadence || []);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [cadenceError, setCadenceError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listCalendarEntries().then(setEntries).catch(err => console.error("Failed to load calendar:", err));
+  }, []);
+
+  const visible = entries.filter(e => platformFilter === 'ALL' || e.platform === platformFilter);
+  const selected = entries.find(e => e.id === selectedId) || null;
+  const days = view === 'week' ? weekDates(anchor) : monthDates(anchor);
+  const today = toDateKey(new Date());
+
+  const persist = (entry: CalendarEntry) => {
+    setEntries(prev => sortCalendarEntries([...prev.filter(e => e.id !== entry.id), entry]));
+    saveCalendarEntry(entry).catch(err => console.error("Failed to save calendar entry:", err));
+  };
+
+  const handleDelete = (id: string) => {
+    setEntries(prev => prev.filter(e => e.id !== id));
+    setSelectedId(null);
+    deleteCalendarEntry(id).catch(err => console.error("Failed to delete calendar entry:", err));
+  };
+
+  // `slot` is set in the week view; whole-day drops in the month view use the suggested time
+  const handleDrop = (date: Date, slot?: string) => {
+    const item = dragging.current;
+    dragging.current = null;
+    setDragOver(null);
+    if (!item) return;
+
+    const dateKey = toDateKey(date);
+    if (item.kind === 'entry') {
+      const entry = entries.find(e => e.id === item.id);
+      if (entry) persist({ ...entry, date: dateKey, time: slot ? timeInSlot(cadence, entry.platform, slot) : entry.time });
+      return;
+    }
+    const platform = item.source.kind === 'result' ? item.source.platform : dropPlatform;
+    const time = slot ? timeInSlot(cadence, platform, slot) : suggestedTime(cadence, platform);
+    const entry = createCalendarEntry(item.source, dateKey, time, platform);
+    persist(entry);
+    setSelectedId(entry.id);
+  };
+
+  const dropTargetProps = (key: string, date: Date, slot?: string) => ({
+    onDragOver: (e: React.DragEvent) => { e.preventDefault(); if (dragOver !== key) setDragOver(key); },
+    onDragLeave: () => setDragOver(prev => (prev === key ? null : prev)),
+    onDrop: (e: React.DragEvent) => { e.preventDefault(); handleDrop(date, slot); },
+  });
+
+  const startDrag = (item: DragItem) => (e: React.DragEvent) => {
+    dragging.current = item;
+    e.dataTransfer.effectAllowed = item.kind === 'entry' ? 'move' : 'copy';
+    e.dataTransfer.setData('text/plain', item.kind === 'entry' ? item.id : sourceTitle(item.source));
+  };
+
+  const handleSuggestCadence = async () => {
+    setIsSuggesting(true);
+    setCadenceError(null);
+    try {
+      const suggested = await onSuggestCadence(niche, Object.values(Platform));
+      setCadence(suggested);
+      savePostingCadence(niche, suggested);
+    } catch (err: any) {
+      if (err?.kind !== 'cancelled') setCadenceError(err?.message || "Could not suggest a cadence.");
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const shift = (direction: number) =>
+    setAnchor(prev => (view === 'week' ? addDays(prev, direction * 7) : new Date(prev.getFullYear(), prev.getMonth() + direction, 1)));
+
+  const rangeLabel = view === 'week'
+    ? `${days[0].toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`
+    : anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+  const weekStart = toDateKey(startOfWeek(anchor));
+  const weekEnd = toDateKey(addDays(startOfWeek(anchor), 6));
+  const scheduledThisWeek = (platform: Platform) =>
+    entries.filter(e => e.platform === platform && e.date >= weekStart && e.date <= weekEnd).length;
+
+  const renderChip = (entry: CalendarEntry) => (
+    <button
+      key={entry.id}
+      draggable
+      onDragStart={startDrag({ kind: 'entry', id: entry.id })}
+      onClick={() => setSelectedId(entry.id)}
+      className={`w-full text-left px-1.5 py-1 rounded border text-[10px] leading-tight truncate cursor-grab ${PLATFORM_COLORS[entry.platform]} ${entry.id === selectedId ? 'ring-1 ring-white' : ''}`}
+      title={`${entry.time} · ${entry.platform} · ${entry.title}`}
+    >
+      <span className="font-mono opacity-70 mr-1">{entry.time}</span>{entry.title}
+    </button>
+  );
+
+  const dayHeader = (date: Date) => {
+    const suggested = isSuggestedDay(cadence, dropPlatform, date);
+    return (
+      <div className={`text-center text-[10px] uppercase font-bold py-1 ${toDateKey(date) === today ? 'text-indigo-300' : 'text-slate-500'}`}>
+        {WEEKDAY_LABELS[date.getDay()]} {date.getDate()}
+        {suggested && <span className="ml-1 inline-block w-1.5 h-1.5 rounded-full bg-green-400 align-middle" title={`Suggested day for ${dropPlatform}`} />}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-6xl h-[90vh] overflow-hidden bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="font-bold text-white flex items-center">
+            <CalendarDays className="w-5 h-5 mr-2 text-indigo-400" />
+            Content Calendar
+            <span className="ml-2 text-xs text-slate-500 font-normal">{entries.length} planned</span>
+          </h2>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => downloadText(entriesToIcs(visible), `content-calendar-${today}.ics`, 'text/calendar')}
+              disabled={visible.length === 0}
+              className="flex items-center px-3 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 rounded-lg text-slate-300"
+            >
+              <Download className="w-3.5 h-3.5 mr-1.5" /> .ics
+            </button>
+            <button
+              onClick={() => downloadText(entriesToCsv(visible), `content-calendar-${today}.csv`, 'text/csv')}
+              disabled={visible.length === 0}
+              className="flex items-center px-3 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 rounded-lg text-slate-300"
+            >
+              <Download className="w-3.5 h-3.5 mr-1.5" /> CSV
+            </button>
+            <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Sidebar: selected entry, cadence, unscheduled items */}
+          <div className="w-72 flex-shrink-0 border-r border-slate-700 overflow-y-auto p-4 space-y-5">
+            {selected && (
+              <div className="space-y-2 p-3 bg-slate-800/60 border border-slate-700 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] uppercase font-bold text-indigo-300">Planned Post</span>
+                  <button onClick={() => setSelectedId(null)} className="text-slate-500 hover:text-white"><X className="w-3.5 h-3.5" /></button>
+                </div>
+                <input className={inputClass} value={selected.title} onChange={(e) => persist({ ...selected, title: e.target.value })} />
+                <div className="grid grid-cols-2 gap-2">
+                  <input type="date" className={inputClass} value={selected.date} onChange={(e) => e.target.value && persist({ ...selected, date: e.target.value })} />
+                  <input type="time" className={inputClass} value={selected.time} onChange={(e) => e.target.value && persist({ ...selected, time: e.target.value })} />
+                </div>
+                <select className={inputClass} value={selected.platform} onChange={(e) => persist({ ...selected, platform: e.target.value as Platform })}>
+                  {Object.values(Platform).map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+                <p className="text-[11px] text-slate-400 max-h-24 overflow-y-auto whitespace-pre-wrap">{selected.body}</p>
+                <textarea
+                  rows={2}
+                  placeholder="Notes for the scheduler..."
+                  className={`${inputClass} resize-none`}
+                  value={selected.notes}
+                  onChange={(e) => persist({ ...selected, notes: e.target.value })}
+                />
+                <button onClick={() => handleDelete(selected.id)} className="flex items-center text-xs text-red-400 hover:text-red-300">
+                  <Trash2 className="w-3.5 h-3.5 mr-1" /> Remove from calendar
+                </button>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <span className="text-[10px] uppercase font-bold text-slate-500">Posting Cadence</span>
+              <div className="flex space-x-2">
+                <input className={inputClass} placeholder="Your niche" value={niche} onChange={(e) => setNiche(e.target.value)} />
+                <button
+                  onClick={handleSuggestCadence}
+                  disabled={isSuggesting || !niche.trim()}
+                  className="flex items-center px-2.5 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 text-white text-xs rounded-md"
+                  title="Suggest a posting cadence for this niche"
+                >
+                  {isSuggesting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+                </button>
+              </div>
+              {cadenceError && <p className="text-[11px] text-red-300">{cadenceError}</p>}
+              {cadence.map(c => (
+                <div key={c.platform} className={`p-2 rounded border text-[11px] ${c.platform === dropPlatform ? 'border-indigo-500/50 bg-indigo-900/20' : 'border-slate-700 bg-slate-800/40'}`}>
+                  <div className="flex justify-between font-bold text-slate-200">
+                    <span>{c.platform}</span>
+                    <span className={scheduledThisWeek(c.platform) >= c.postsPerWeek ? 'text-green-400' : 'text-slate-400'}>
+                      {scheduledThisWeek(c.platform)}/{c.postsPerWeek} this week
+                    </span>
+                  </div>
+                  <div className="text-slate-400">{c.bestDays.map(d => WEEKDAY_LABELS[d]).join(', ')} · {c.bestTimes.join(', ')}</div>
+                  {c.rationale && <div className="text-slate-500 mt-0.5">{c.rationale}</div>}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-[10px] uppercase font-bold text-slate-500">Drag onto the calendar</span>
+              <label className="flex items-center justify-between text-[11px] text-slate-400">
+                Trends post to
+                <select className={`${inputClass} w-auto ml-2`} value={dropPlatform} onChange={(e) => setDropPlatform(e.target.value as Platform)}>
+                  {Object.values(Platform).map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+              </label>
+              {trayItems.length === 0 && (
+                <p className="text-[11px] text-slate-500">Run Trend Hunter or generate a strategy; saved results show up here.</p>
+              )}
+              {trayItems.map(item => (
+                <div
+                  key={item.key}
+                  draggable
+                  onDragStart={startDrag({ kind: 'source', source: item.source })}
+                  className="flex items-start p-2 bg-slate-800/50 border border-slate-700 hover:border-indigo-500/50 rounded-lg cursor-grab text-xs text-slate-300"
+                >
+                  <GripVertical className="w-3.5 h-3.5 mr-1.5 text-slate-600 flex-shrink-0 mt-0.5" />
+                  {item.source.kind === 'trend'
+                    ? <Flame className="w-3.5 h-3.5 mr-1.5 text-orange-400 flex-shrink-0 mt-0.5" />
+                    : <Sparkles className="w-3.5 h-3.5 mr-1.5 text-indigo-400 flex-shrink-0 mt-0.5" />}
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate">{sourceTitle(item.source)}</span>
+                    {item.source.kind === 'result' && <span className="text-[10px] text-slate-500">{item.source.platform} · score {item.source.result.virality.score}</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Grid */}
+          <div className="flex-1 flex flex-col overflow-hidden p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center space-x-2">
+                <button onClick={() => shift(-1)} className="p-1 text-slate-400 hover:text-white"><ChevronLeft className="w-4 h-4" /></button>
+                <button onClick={() => setAnchor(new Date())} className="px-2 py-1 text-xs text-slate-300 bg-slate-800 border border-slate-700 rounded-md">Today</button>
+                <button onClick={() => shift(1)} className="p-1 text-slate-400 hover:text-white"><ChevronRight className="w-4 h-4" /></button>
+                <span className="text-sm font-bold text-white ml-2">{rangeLabel}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <select className={`${inputClass} w-auto`} value={platformFilter} onChange={(e) => setPlatformFilter(e.target.value as Platform | 'ALL')}>
+                  <option value="ALL">All Platforms</option>
+                  {Object.values(Platform).map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+                <div className="flex bg-slate-800 border border-slate-700 rounded-md overflow-hidden">
+                  {(['week', 'month'] as CalendarView[]).map(v => (
+                    <button
+                      key={v}
+                      onClick={() => setView(v)}
+                      className={`px-3 py-1 text-xs capitalize ${view === v ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      {v}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-auto">
+              {view === 'week' ? (
+                <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] gap-px bg-slate-800 border border-slate-800 rounded-lg overflow-hidden min-w-[640px]">
+                  <div className="bg-slate-900" />
+                  {days.map(date => <div key={toDateKey(date)} className="bg-slate-900">{dayHeader(date)}</div>)}
+                  {TIME_SLOTS.map(slot => (
+                    <React.Fragment key={slot}>
+                      <div className="bg-slate-900 text-[10px] font-mono text-slate-500 p-1 text-right">{slot}</div>
+                      {days.map(date => {
+                        const key = `${toDateKey(date)}|${slot}`;
+                        const cellEntries = visible.filter(e => e.date === toDateKey(date) && slotOf(e.time) === slot);
+                        return (
+                          <div
+                            key={key}
+                            {...dropTargetProps(key, date, slot)}
+                            className={`min-h-[64px] p-1 space-y-1 ${dragOver === key ? 'bg-indigo-900/40' : isSuggestedDay(cadence, dropPlatform, date) ? 'bg-green-900/10' : 'bg-slate-900'}`}
+                          >
+                            {cellEntries.map(renderChip)}
+                          </div>
+                        );
+                      })}
+                    </React.Fragment>
+                  ))}
+                </div>
+              ) : (
+                <div className="grid grid-cols-7 gap-px bg-slate-800 border border-slate-800 rounded-lg overflow-hidden min-w-[640px]">
+                  {days.slice(0, 7).map(date => (
+                    <div key={date.getDay()} className="bg-slate-900 text-center text-[10px] uppercase font-bold text-slate-500 py-1">{WEEKDAY_LABELS[date.getDay()]}</div>
+                  ))}
+                  {days.map(date => {
+                    const key = toDateKey(date);
+                    const dayEntries = visible.filter(e => e.date === key);
+                    const inMonth = date.getMonth() === anchor.getMonth();
+                    return (
+                      <div
+                        key={key}
+                        {...dropTargetProps(key, date)}
+                        className={`min-h-[96px] p-1 space-y-1 ${dragOver === key ? 'bg-indigo-900/40' : isSuggestedDay(cadence, dropPlatform, date) ? 'bg-green-900/10' : 'bg-slate-900'} ${inMonth ? '' : 'opacity-50'}`}
+                      >
+                        <div className={`text-[10px] font-bold ${key === today ? 'text-indigo-300' : 'text-slate-500'}`}>{date.getDate()}</div>
+                        {dayEntries.slice(0, MONTH_CHIP_LIMIT).map(renderChip)}
+                        {dayEntries.length > MONTH_CHIP_LIMIT && (
+                          <button onClick={() => { setView('week'); setAnchor(date); }} className="text-[10px] text-slate-400 hover:text-white">
+                            +{dayEntries.length - MONTH_CHIP_LIMIT} more
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+            <p className="mt-2 text-[10px] text-slate-500">
+              <span className="inline-block w-1.5 h-1.5 rounded-full bg-green-400 mr-1 align-middle" />
+              Suggested days for {dropPlatform}. Drag entries to move them; exports include the platforms currently shown.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContentCalendar;
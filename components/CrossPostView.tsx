@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { CrossPostPackage } from '../types';
+import { Copy, Download, Layers, ListOrdered, Clock, Type } from 'lucide-react';
+
+interface CrossPostViewProps {
+  packages: CrossPostPackage[];
+}
+
+// Plain-text export of one package, in the order a social manager would paste it
+const formatPackage = (pkg: CrossPostPackage): string => {
+  const sections = [`=== ${pkg.platform.toUpperCase()} ===`, `HEADLINE:\n${pkg.headline}`];
+  if (pkg.thread && pkg.thread.length > 0) {
+    sections.push(`THREAD:\n${pkg.thread.map((t, i) => `${i + 1}/${pkg.thread!.length} ${t}`).join('\n\n')}`);
+  } else {
+    sections.push(`BODY:\n${pkg.body}`);
+  }
+  if (pkg.chapters && pkg.chapters.length > 0) {
+    sections.push(`CHAPTERS:\n${pkg.chapters.map(c => `${c.timestamp} ${c.title}`).join('\n')}`);
+  }
+  if (pkg.onScreenText && pkg.onScreenText.length > 0) {
+    sections.push(`ON-SCREEN TEXT:\n${pkg.onScreenText.map((t, i) => `${i + 1}. ${t}`).join('\n')}`);
+  }
+  sections.push(`CTA:\n${pkg.cta}`, `HASHTAGS:\n${pkg.hashtags.join(' ')}`);
+  return sections.join('\n\n');
+};
+
+const CrossPostView: React.FC<CrossPostViewProps> = ({ packages }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const active = packages[Math.min(activeIndex, packages.length - 1)];
+
+  const allContent = packages.map(formatPackage).join('\n\n\n');
+
+  const handleDownload = () => {
+    const blob = new Blob([allContent], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `cross-post-${Date.now()}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (!active) return null;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-slate-900/80 border border-indigo-500/30 p-5 rounded-xl flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white flex items-center">
+          <Layers className="w-5 h-5 mr-2 text-indigo-400" />
+          Cross-Post Packages
+          <span className="ml-2 text-xs text-slate-500 font-normal">{packages.length} platforms</span>
+        </h2>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => navigator.clipboard.writeText(allContent)}
+            className="flex items-center px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-medium rounded-lg transition-colors border border-slate-600"
+          >
+            <Copy className="w-3.5 h-3.5 mr-1.5" /> Copy All
+          </button>
+          <button
+            onClick={handleDownload}
+            className="flex items-center px-3 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-medium rounded-lg transition-colors"
+          >
+            <Download className="w-3.5 h-3.5 mr-1.5" /> Download All .TXT
+          </button>
+        </div>
+      </div>
+
+      {/* Platform Tabs */}
+      <div className="flex flex-wrap gap-2 border-b border-slate-700 pb-2">
+        {packages.map((pkg, i) => (
+          <button
+            key={pkg.platform}
+            onClick={() => setActiveIndex(i)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${
+              pkg === active ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'
+            }`}
+          >
+            {pkg.platform}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-slate-900/80 backdrop-blur-md border border-indigo-500/30 p-6 rounded-xl shadow-lg shadow-indigo-500/10 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold text-white">{active.platform}</h3>
+          <button
+            onClick={() => navigator.clipboard.writeText(formatPackage(active))}
+            className="text-xs flex items-center text-indigo-400 hover:text-indigo-300 transition-colors"
+          >
+            <Copy className="w-3 h-3 mr-1" /> Copy Package
+          </button>
+        </div>
+
+        <div className="bg-slate-900 p-4 rounded-lg border border-slate-700/50 relative">
+          <span className="absolute -top-2 left-4 px-2 bg-indigo-600 text-white text-[10px] uppercase font-bold rounded">Headline / Title</span>
+          <p className="text-lg font-bold text-white text-center mt-2">{active.headline}</p>
+        </div>
+
+        {active.thread && active.thread.length > 0 ? (
+          <div className="space-y-2">
+            <span className="text-xs text-slate-500 uppercase font-bold flex items-center"><ListOrdered className="w-3 h-3 mr-1" /> Thread</span>
+            {active.thread.map((tweet, i) => (
+              <div key={i} className="bg-slate-900 p-3 rounded-lg border border-slate-700/50 text-sm text-slate-200 whitespace-pre-wrap">
+                <span className="text-[10px] font-bold text-sky-400 mr-2">{i + 1}/{active.thread!.length}</span>
+                {tweet}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="bg-slate-900 p-4 rounded-lg border border-slate-700/50">
+            <span className="text-xs text-slate-500 uppercase font-bold mb-2 block">Body</span>
+            <p className="text-slate-200 whitespace-pre-wrap leading-relaxed">{active.body}</p>
+          </div>
+        )}
+
+        {active.chapters && active.chapters.length > 0 && (
+          <div className="bg-slate-900 p-4 rounded-lg border border-slate-700/50">
+            <span className="text-xs text-slate-500 uppercase font-bold mb-2 flex items-center"><Clock className="w-3 h-3 mr-1" /> Chapters</span>
+            <ul className="space-y-1 text-sm text-slate-300">
+              {active.chapters.map((c, i) => (
+                <li key={i}><span className="font-mono text-indigo-300 mr-2">{c.timestamp}</span>{c.title}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {active.onScreenText && active.onScreenText.length > 0 && (
+          <div className="bg-slate-900 p-4 rounded-lg border border-slate-700/50">
+            <span className="text-xs text-slate-500 uppercase font-bold mb-2 flex items-center"><Type className="w-3 h-3 mr-1" /> On-Screen Text</span>
+            <ol className="space-y-1 text-sm text-slate-200 list-decimal list-inside">
+              {active.onScreenText.map((t, i) => <li key={i}>{t}</li>)}
+            </ol>
+          </div>
+        )}
+
+        <div className="bg-gradient-to-r from-indigo-900/50 to-purple-900/50 p-4 rounded-lg border border-indigo-500/20 flex items-center justify-between">
+          <span className="text-xs text-indigo-300 uppercase font-bold">Call To Action</span>
+          <span className="font-bold text-white">{active.cta}</span>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {active.hashtags.map((t, i) => <span key={i} className="text-xs text-blue-400">{t}</span>)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrossPostView;
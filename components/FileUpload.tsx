@@ -1,5 +1,5 @@
 import React, { useRef } from 'react';
-import { Upload, X, FileVideo, FileImage } from 'lucide-react';
+import { Upload, X, FileVideo, FileImage, FileText } from 'lucide-react';
 import { MAX_FILE_SIZE_BYTES, MAX_FILE_SIZE_MB } from '../constants';
 import { FileInput } from '../types';
 
@@ -7,9 +7,11 @@ interface FileUploadProps {
   files: FileInput[];
   setFiles: React.Dispatch<React.SetStateAction<FileInput[]>>;
   multiple?: boolean;
+  accept?: string;
+  label?: string;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ files, setFiles, multiple = false }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ files, setFiles, multiple = false, accept = 'image/*,video/*', label }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Helper to format the display size (e.g., 10GB instead of 10240MB)
@@ -28,12 +30,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, setFiles, multiple = fal
         }
 
         const isVideo = file.type.startsWith('video/');
+        const isImage = file.type.startsWith('image/');
         const preview = URL.createObjectURL(file);
 
         newFiles.push({
           file,
           preview,
-          type: isVideo ? 'video' : 'image'
+          type: isVideo ? 'video' : isImage ? 'image' : 'document'
         });
       });
 
@@ -62,14 +65,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, setFiles, multiple = fal
         className="border-2 border-dashed border-slate-600 rounded-xl p-8 flex flex-col items-center justify-center text-slate-400 hover:border-indigo-500 hover:text-indigo-400 hover:bg-slate-800/50 transition-all cursor-pointer group"
       >
         <Upload className="w-12 h-12 mb-4 group-hover:scale-110 transition-transform" />
-        <p className="text-sm font-medium">Click to upload {multiple ? 'Files (Batch)' : 'Content'}</p>
+        <p className="text-sm font-medium">Click to upload {label || (multiple ? 'Files (Batch)' : 'Content')}</p>
         <p className="text-xs text-slate-500 mt-2">Max size: {formattedMaxSize} per file</p>
         <input 
           type="file" 
           ref={fileInputRef} 
           className="hidden" 
           onChange={handleFileChange} 
-          accept="image/*,video/*"
+          accept={accept}
           multiple={multiple}
         />
       </div>
@@ -86,7 +89,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, setFiles, multiple = fal
               </button>
               
               <div className="aspect-square flex items-center justify-center bg-slate-900">
-                {f.type === 'video' ? (
+                {f.type === 'document' ? (
+                  <FileText className="text-slate-500 w-10 h-10" />
+                ) : f.type === 'video' ? (
                   <div className="relative w-full h-full flex items-center justify-center">
                     <FileVideo className="text-slate-500 w-10 h-10" />
                     <video src={f.preview} className="absolute inset-0 w-full h-full object-cover opacity-50" />
@@ -0,0 +1,42 @@
+import React from 'react';
+
+export interface TextSpan {
+  start: number;
+  end: number;
+  title?: string;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  spans: TextSpan[];
+  className?: string;
+}
+
+// Renders text with the given character ranges marked. Overlapping ranges are merged.
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, spans, className = 'bg-red-500/30 text-red-200 rounded px-0.5 underline decoration-wavy decoration-red-400' }) => {
+  if (spans.length === 0) return <>{text}</>;
+
+  const merged: TextSpan[] = [];
+  [...spans].sort((a, b) => a.start - b.start).forEach(span => {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+      last.title = [last.title, span.title].filter(Boolean).join('; ');
+    } else {
+      merged.push({ ...span });
+    }
+  });
+
+  const pieces: React.ReactNode[] = [];
+  let cursor = 0;
+  merged.forEach((span, i) => {
+    if (span.start > cursor) pieces.push(text.slice(cursor, span.start));
+    pieces.push(<mark key={i} className={className} title={span.title}>{text.slice(span.start, span.end)}</mark>);
+    cursor = span.end;
+  });
+  if (cursor < text.length) pieces.push(text.slice(cursor));
+
+  return <>{pieces}</>;
+};
+
+export default HighlightedText;
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { AppMode, HistoryEntry, Platform } from '../types';
+import { DEFAULT_HISTORY_FILTERS, entryResult, filterHistoryEntries, HistoryFilters } from '../services/historyStore';
+import { X, Search, Pin, PinOff, Trash2, RotateCcw, History, FileVideo, FileText, Flame } from 'lucide-react';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  onRestore: (entry: HistoryEntry) => void;
+  onTogglePin: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<AppMode, string> = {
+  [AppMode.GENERATION]: 'Create',
+  [AppMode.REFINE]: 'Refine',
+  [AppMode.COMPETITOR_SPY]: 'Spy',
+  [AppMode.TREND_HUNTER]: 'Trends',
+  [AppMode.CROSS_POST]: 'Cross-Post',
+};
+
+const selectClass = "bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none";
+
+const entryTitle = (entry: HistoryEntry) => {
+  if (entry.trends) return `Trends: ${entry.config.niche}`;
+  if (entry.crossPost) return entry.crossPost[0]?.headline || `Cross-Post (${entry.crossPost.length} platforms)`;
+  return entryResult(entry)?.strategy.headline || entry.config.originalText.slice(0, 60) || 'Untitled run';
+};
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ entries, onRestore, onTogglePin, onDelete, onClose }) => {
+  const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_HISTORY_FILTERS);
+  const visible = filterHistoryEntries(entries, filters);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex">
+      <div className="w-full max-w-md h-full bg-slate-900 border-r border-slate-700 shadow-2xl flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-700">
+          <h2 className="font-bold text-white flex items-center">
+            <History className="w-5 h-5 mr-2 text-indigo-400" />
+            History
+            <span className="ml-2 text-xs text-slate-500 font-normal">{entries.length} runs</span>
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Search & Filters */}
+        <div className="p-4 space-y-2 border-b border-slate-700/50">
+          <div className="relative">
+            <Search className="absolute top-2.5 left-3 w-4 h-4 text-slate-500" />
+            <input
+              type="text"
+              placeholder="Search captions, hashtags, niches..."
+              value={filters.query}
+              onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 pl-9 pr-3 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <select className={selectClass} value={filters.mode} onChange={(e) => setFilters({ ...filters, mode: e.target.value as HistoryFilters['mode'] })}>
+              <option value="ALL">All Modes</option>
+              {Object.values(AppMode).map(m => <option key={m} value={m}>{MODE_LABELS[m]}</option>)}
+            </select>
+            <select className={selectClass} value={filters.platform} onChange={(e) => setFilters({ ...filters, platform: e.target.value as HistoryFilters['platform'] })}>
+              <option value="ALL">All Platforms</option>
+              {Object.values(Platform).map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <select className={selectClass} value={filters.minScore} onChange={(e) => setFilters({ ...filters, minScore: Number(e.target.value) })}>
+              <option value={0}>Any Score</option>
+              <option value={50}>50+</option>
+              <option value={70}>70+</option>
+              <option value={90}>90+</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {visible.length === 0 && (
+            <p className="text-center text-sm text-slate-500 mt-8">
+              {entries.length === 0 ? 'Your runs will appear here.' : 'No runs match these filters.'}
+            </p>
+          )}
+          {visible.map(entry => {
+            const thumb = entry.files.find(f => f.thumbnail);
+            return (
+              <div key={entry.id} className={`p-3 rounded-xl border bg-slate-800/50 group ${entry.pinned ? 'border-indigo-500/50' : 'border-slate-700'}`}>
+                <div className="flex items-start space-x-3">
+                  <div className="w-12 h-12 rounded-lg bg-slate-900 flex-shrink-0 overflow-hidden flex items-center justify-center">
+                    {thumb ? (
+                      <img src={thumb.thumbnail} alt={thumb.name} className="w-full h-full object-cover" />
+                    ) : entry.mode === AppMode.TREND_HUNTER ? (
+                      <Flame className="w-5 h-5 text-orange-500" />
+                    ) : entry.files.length > 0 ? (
+                      <FileVideo className="w-5 h-5 text-slate-500" />
+                    ) : (
+                      <FileText className="w-5 h-5 text-slate-500" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-200 truncate">{entryTitle(entry)}</p>
+                    <div className="flex flex-wrap items-center gap-x-2 text-[10px] text-slate-500 mt-0.5">
+                      <span className="uppercase font-bold text-indigo-400">{MODE_LABELS[entry.mode]}</span>
+                      {entry.crossPost
+                        ? <span>{entry.crossPost.map(p => p.platform).join(', ')}</span>
+                        : entry.mode !== AppMode.TREND_HUNTER && <span>{entry.platform}</span>}
+                      {entryResult(entry) && (
+                        <span className="text-slate-300">
+                          Score {entryResult(entry)!.virality.score}{entry.variants && ` · best of ${entry.variants.length}`}
+                        </span>
+                      )}
+                      <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                    </div>
+                    <p className="text-[10px] text-slate-600 mt-0.5 truncate">
+                      {entry.llm.model}{entry.files.length > 0 && ` · ${entry.files.map(f => f.name).join(', ')}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center justify-end space-x-1 mt-2">
+                  <button onClick={() => onTogglePin(entry)} className="p-1.5 text-slate-500 hover:text-indigo-300" title={entry.pinned ? 'Unpin' : 'Pin'}>
+                    {entry.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                  </button>
+                  <button onClick={() => onDelete(entry)} className="p-1.5 text-slate-500 hover:text-red-400" title="Delete">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => onRestore(entry)} className="flex items-center px-2.5 py-1 text-xs bg-indigo-600 hover:bg-indigo-500 text-white rounded-md">
+                    <RotateCcw className="w-3 h-3 mr-1" /> Restore
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className="flex-1 bg-slate-950/60 backdrop-blur-sm" onClick={onClose}></div>
+    </div>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { DropOffRisk, HookAnalysis } from '../types';
+import { HOOK_WINDOW_SECONDS } from '../services/mediaPreprocessing';
+import { AlertTriangle, Mic, Move, Scissors, Timer, Type, X } from 'lucide-react';
+
+interface HookAnalysisViewProps {
+  analysis: HookAnalysis;
+  onClose: () => void;
+}
+
+const RISK_STYLES: Record<DropOffRisk, string> = {
+  low: 'bg-green-500/15 border-green-500/40 text-green-300',
+  medium: 'bg-amber-500/15 border-amber-500/40 text-amber-300',
+  high: 'bg-red-500/15 border-red-500/40 text-red-300',
+};
+
+// Index of the sampled frame closest to `time`
+const nearestFrame = (times: number[], time: number) =>
+  times.reduce((best, t, i) => (Math.abs(t - time) < Math.abs(times[best] - time) ? i : best), 0);
+
+// Frame strip of a video's opening, each frame annotated, with numbered re-edits pinned to frames
+const HookAnalysisView: React.FC<HookAnalysisViewProps> = ({ analysis, onClose }) => {
+  const times = analysis.moments.map(m => m.time);
+  const speechFrame = analysis.speechStart === null ? -1 : nearestFrame(times, analysis.speechStart);
+  const editsAt = (frame: number) => analysis.edits
+    .map((edit, i) => ({ ...edit, number: i + 1 }))
+    .filter(edit => nearestFrame(times, edit.time) === frame);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-6xl max-h-[90vh] overflow-hidden bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="font-bold text-white flex items-center min-w-0">
+            <Timer className="w-5 h-5 mr-2 text-indigo-400 flex-shrink-0" />
+            First {HOOK_WINDOW_SECONDS} Seconds
+            <span className="ml-2 text-xs text-slate-500 font-normal truncate">{analysis.fileName} · {analysis.platform}</span>
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+            <div className="p-3 bg-slate-800/40 border border-slate-700 rounded-xl">
+              <span className="text-[10px] uppercase font-bold text-slate-500">Hook type</span>
+              <p className="text-indigo-200 font-semibold">{analysis.hookType}</p>
+              <p className="text-xs text-slate-400 mt-1">
+                {analysis.speechStart === null
+                  ? `No speech in the first ${HOOK_WINDOW_SECONDS}s`
+                  : `Speech starts at ${analysis.speechStart}s`}
+              </p>
+            </div>
+            <div className="p-3 bg-slate-800/40 border border-slate-700 rounded-xl">
+              <span className="text-[10px] uppercase font-bold text-slate-500">First-frame text</span>
+              {analysis.firstFrameText ? (
+                <p className="text-slate-200 italic">"{analysis.firstFrameText}"</p>
+              ) : (
+                <p className="text-amber-300 text-xs flex items-center mt-0.5">
+                  <AlertTriangle className="w-3.5 h-3.5 mr-1" /> No text overlay on the first frame
+                </p>
+              )}
+            </div>
+            <div className={`p-3 border rounded-xl ${RISK_STYLES[analysis.dropOffRisk]}`}>
+              <span className="text-[10px] uppercase font-bold opacity-80">Drop-off risk</span>
+              <p className="font-bold capitalize">{analysis.dropOffRisk}</p>
+              {analysis.dropOffReason && <p className="text-xs text-slate-300 mt-1">{analysis.dropOffReason}</p>}
+            </div>
+          </div>
+
+          {/* Frame strip */}
+          <div className="flex gap-3 overflow-x-auto pb-2">
+            {analysis.moments.map((moment, i) => (
+              <div key={moment.time} className="w-44 flex-shrink-0 space-y-2">
+                <div className="relative">
+                  {analysis.frames[i] ? (
+                    <img src={analysis.frames[i]} alt={`Frame at ${moment.time}s`} className="w-full rounded-lg border border-slate-700 bg-black" />
+                  ) : (
+                    <div className="w-full aspect-[9/16] rounded-lg border border-slate-700 bg-slate-800" />
+                  )}
+                  <span className="absolute top-1.5 left-1.5 px-1.5 py-0.5 text-[10px] font-mono text-white bg-black/70 rounded">{moment.time}s</span>
+                  {i === speechFrame && (
+                    <span className="absolute top-1.5 right-1.5 flex items-center px-1.5 py-0.5 text-[10px] text-white bg-indigo-600/90 rounded">
+                      <Mic className="w-3 h-3 mr-0.5" /> Speech
+                    </span>
+                  )}
+                  <div className="absolute bottom-1.5 right-1.5 flex gap-1">
+                    {editsAt(i).map(edit => (
+                      <span key={edit.number} className="w-5 h-5 flex items-center justify-center text-[10px] font-bold text-slate-900 bg-amber-400 rounded-full" title={edit.edit}>
+                        {edit.number}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1 text-[11px]">
+                  {moment.textOverlay && (
+                    <p className="flex items-start text-slate-200"><Type className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0 text-slate-500" />"{moment.textOverlay}"</p>
+                  )}
+                  {moment.motion && (
+                    <p className="flex items-start text-slate-300"><Move className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0 text-slate-500" />{moment.motion}</p>
+                  )}
+                  {moment.speech && (
+                    <p className="flex items-start text-slate-300"><Mic className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0 text-slate-500" />{moment.speech}</p>
+                  )}
+                  {moment.note && <p className="text-slate-500 italic">{moment.note}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-4 bg-amber-900/10 border border-amber-500/30 rounded-xl">
+            <h3 className="text-xs font-bold uppercase text-amber-300 mb-3 flex items-center">
+              <Scissors className="w-3.5 h-3.5 mr-1.5" /> Re-edit suggestions
+            </h3>
+            <ol className="space-y-2">
+              {analysis.edits.map((edit, i) => (
+                <li key={i} className="flex items-start text-sm text-slate-200">
+                  <span className="w-5 h-5 flex-shrink-0 flex items-center justify-center text-[10px] font-bold text-slate-900 bg-amber-400 rounded-full mr-2 mt-0.5">{i + 1}</span>
+                  <span className="font-mono text-xs text-amber-200 mr-2 mt-0.5">{edit.time}s</span>
+                  <span>{edit.edit}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HookAnalysisView;
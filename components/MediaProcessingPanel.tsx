@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { FileInput, MediaProcessing, VideoHandling } from '../types';
+import {
+  estimateVideoCost,
+  formatBytes,
+  formatSeconds,
+  IMAGE_DIMENSIONS,
+  KEYFRAME_COUNTS,
+  readVideoDuration,
+  VIDEO_HANDLING_LABELS,
+} from '../services/mediaPreprocessing';
+import { Film, ImageDown, Mic, Scissors } from 'lucide-react';
+
+interface MediaProcessingPanelProps {
+  files: FileInput[];
+  settings: MediaProcessing;
+  onChange: (settings: MediaProcessing) => void;
+}
+
+// How uploads are reduced before sending, with a size/time estimate per video for each option
+const MediaProcessingPanel: React.FC<MediaProcessingPanelProps> = ({ files, settings, onChange }) => {
+  const [durations, setDurations] = useState<Record<string, number | undefined>>({});
+  const videos = files.filter(f => f.type === 'video');
+  const imageCount = files.filter(f => f.type === 'image').length;
+
+  // Durations feed the estimates; previews are object URLs, so each is read once
+  useEffect(() => {
+    videos.filter(v => !(v.preview in durations)).forEach(v => {
+      readVideoDuration(v.preview).then(duration => setDurations(prev => ({ ...prev, [v.preview]: duration })));
+    });
+  }, [files]);
+
+  const update = (patch: Partial<MediaProcessing>) => onChange({ ...settings, ...patch });
+  const keyframes = settings.videoHandling === 'keyframes';
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-slate-700/50">
+      <label className="text-xs font-bold text-slate-400 uppercase flex items-center">
+        <Scissors className="w-3 h-3 mr-1" />
+        Media Preprocessing
+      </label>
+
+      {videos.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(VIDEO_HANDLING_LABELS) as VideoHandling[]).map(handling => (
+              <button
+                key={handling}
+                onClick={() => update({ videoHandling: handling })}
+                className={`py-2 rounded-lg border text-xs font-bold transition-all ${
+                  settings.videoHandling === handling
+                    ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300'
+                    : 'bg-slate-900 border-slate-700 text-slate-500 hover:border-slate-500'
+                }`}
+              >
+                {VIDEO_HANDLING_LABELS[handling]}
+              </button>
+            ))}
+          </div>
+
+          {keyframes && (
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                <Film className="w-3.5 h-3.5" />
+                <select
+                  value={settings.keyframeCount}
+                  onChange={(e) => update({ keyframeCount: Number(e.target.value) })}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white outline-none"
+                >
+                  {KEYFRAME_COUNTS.map(n => <option key={n} value={n}>{n} frames</option>)}
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.transcribeAudio}
+                  onChange={(e) => update({ transcribeAudio: e.target.checked })}
+                  className="accent-indigo-500"
+                />
+                <Mic className="w-3.5 h-3.5" /> Audio transcript
+              </label>
+            </div>
+          )}
+
+          <div className="bg-slate-900 border border-slate-700 rounded-lg divide-y divide-slate-800">
+            {videos.map(v => {
+              const estimate = estimateVideoCost(v.file.size, durations[v.preview], settings);
+              return (
+                <div key={v.preview} className="px-3 py-2 text-[11px]">
+                  <div className="flex justify-between text-slate-300">
+                    <span className="truncate mr-2">{v.file.name}</span>
+                    {durations[v.preview] && <span className="text-slate-500 flex-shrink-0">{formatSeconds(durations[v.preview]!)}</span>}
+                  </div>
+                  <div className="flex gap-4 mt-1 font-mono">
+                    {(Object.keys(VIDEO_HANDLING_LABELS) as VideoHandling[]).map(handling => (
+                      <span key={handling} className={settings.videoHandling === handling ? 'text-indigo-300' : 'text-slate-600'}>
+                        {VIDEO_HANDLING_LABELS[handling]}: {formatBytes(estimate[handling].bytes)} · ~{formatSeconds(estimate[handling].seconds)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          {keyframes && (
+            <p className="text-[10px] text-slate-500">
+              Each video is sent as one sheet of timestamped frames, starting with the first frame.
+              {settings.transcribeAudio && ' Speech is transcribed separately so the audio still counts.'}
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span className="flex items-center gap-2">
+          <ImageDown className="w-3.5 h-3.5" />
+          Max image size{imageCount > 0 && ` · ${imageCount} image${imageCount === 1 ? '' : 's'}`}
+        </span>
+        <select
+          value={settings.maxImageDimension}
+          onChange={(e) => update({ maxImageDimension: Number(e.target.value) })}
+          className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white outline-none"
+        >
+          {IMAGE_DIMENSIONS.map(px => <option key={px} value={px}>{px}px</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default MediaProcessingPanel;
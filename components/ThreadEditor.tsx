@@ -0,0 +1,98 @@
+import React, { useRef } from 'react';
+import { ThreadTweet } from '../types';
+import { charCount } from '../services/platformRules';
+import { formatThreadForCopy, mergeWithNext, moveTweet, numberTweet, reindexThread, removeTweet, splitTweet } from '../services/twitterThread';
+import { ArrowUp, ArrowDown, Scissors, Merge, Trash2, Copy, Plus, Image as ImageIcon, ListOrdered } from 'lucide-react';
+
+interface ThreadEditorProps {
+  thread: ThreadTweet[];
+  onChange: (thread: ThreadTweet[]) => void;
+  maxLength?: number;
+}
+
+const iconButton = "p-1.5 text-slate-500 hover:text-white disabled:opacity-30 disabled:hover:text-slate-500 transition-colors";
+
+const ThreadEditor: React.FC<ThreadEditorProps> = ({ thread, onChange, maxLength = 280 }) => {
+  // Cursor positions so "split" happens where the user is typing
+  const cursors = useRef<Record<number, number>>({});
+
+  const updateTweet = (index: number, patch: Partial<ThreadTweet>) => {
+    onChange(thread.map((t, i) => i === index ? { ...t, ...patch } : t));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-500 uppercase font-bold flex items-center">
+          <ListOrdered className="w-3 h-3 mr-1" /> Thread ({thread.length} tweets)
+        </span>
+        <button
+          onClick={() => navigator.clipboard.writeText(formatThreadForCopy(thread))}
+          className="text-xs flex items-center text-sky-400 hover:text-sky-300 transition-colors"
+        >
+          <Copy className="w-3 h-3 mr-1" /> Copy All (Numbered)
+        </button>
+      </div>
+
+      {thread.map((tweet, i) => {
+        const length = charCount(tweet.text);
+        const over = length > maxLength;
+        return (
+          <div key={i} className={`bg-slate-900 rounded-lg border p-3 ${over ? 'border-red-500/60' : 'border-slate-700/50'}`}>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[10px] font-bold text-sky-400">{i + 1}/{thread.length}{i === 0 && ' · Hook'}</span>
+              <div className="flex items-center">
+                <span className={`text-[10px] font-mono px-1.5 py-0.5 rounded mr-2 ${over ? 'text-red-400 bg-red-900/30' : 'text-slate-500 bg-slate-800'}`}>
+                  {length} / {maxLength}
+                </span>
+                <button className={iconButton} disabled={i === 0} onClick={() => onChange(moveTweet(thread, i, -1))} title="Move up">
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button className={iconButton} disabled={i === thread.length - 1} onClick={() => onChange(moveTweet(thread, i, 1))} title="Move down">
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+                <button className={iconButton} onClick={() => onChange(splitTweet(thread, i, cursors.current[i]))} title="Split at cursor">
+                  <Scissors className="w-3.5 h-3.5" />
+                </button>
+                <button className={iconButton} disabled={i === thread.length - 1} onClick={() => onChange(mergeWithNext(thread, i))} title="Merge with next">
+                  <Merge className="w-3.5 h-3.5" />
+                </button>
+                <button className={iconButton} disabled={thread.length === 1} onClick={() => onChange(removeTweet(thread, i))} title="Delete tweet">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+                <button className={iconButton} onClick={() => navigator.clipboard.writeText(numberTweet(tweet.text, i, thread.length))} title="Copy tweet">
+                  <Copy className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+            <textarea
+              value={tweet.text}
+              onChange={(e) => updateTweet(i, { text: e.target.value })}
+              onSelect={(e) => { cursors.current[i] = e.currentTarget.selectionStart; }}
+              rows={Math.max(2, Math.ceil(tweet.text.length / 60))}
+              className="w-full bg-transparent text-sm text-slate-200 leading-relaxed resize-none outline-none focus:ring-1 focus:ring-sky-500/50 rounded"
+            />
+            <div className="flex items-center mt-1 text-[11px] text-slate-500">
+              <ImageIcon className="w-3 h-3 mr-1.5 flex-shrink-0" />
+              <input
+                value={tweet.mediaSuggestion}
+                onChange={(e) => updateTweet(i, { mediaSuggestion: e.target.value })}
+                placeholder="Media suggestion (optional)"
+                className="flex-1 bg-transparent outline-none placeholder-slate-600 focus:text-slate-300"
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onChange(reindexThread([...thread, { index: 0, text: '', mediaSuggestion: '' }]))}
+        className="w-full flex items-center justify-center py-2 text-xs text-sky-400 border border-dashed border-slate-700 rounded-lg hover:border-sky-500"
+      >
+        <Plus className="w-3.5 h-3.5 mr-1" /> Add Tweet
+      </button>
+    </div>
+  );
+};
+
+export default ThreadEditor;
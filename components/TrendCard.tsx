@@ -0,0 +1,111 @@
+import React from 'react';
+import { TrendConfidence, TrendItem, TrendStatus } from '../types';
+import { FRESHNESS_LABELS, trendFreshness } from '../services/trendGrounding';
+import { TREND_STATUS_LABELS } from '../services/trendWatchlists';
+import { ArrowRight, AlertTriangle, Clock, ExternalLink, Gauge } from 'lucide-react';
+
+interface TrendCardProps {
+  trend: TrendItem;
+  status?: TrendStatus; // Set when the run was compared with a watchlist's previous run
+  onUse: (trend: TrendItem) => void;
+}
+
+const STATUS_STYLES: Record<TrendStatus, string> = {
+  new: 'text-white bg-orange-600 border-orange-500',
+  'still-hot': 'text-orange-200 bg-orange-900/40 border-orange-500/40',
+  faded: 'text-slate-400 bg-slate-800 border-slate-600',
+};
+
+const CONFIDENCE_STYLES: Record<TrendConfidence, string> = {
+  high: 'text-green-300 bg-green-900/30 border-green-500/30',
+  medium: 'text-yellow-300 bg-yellow-900/20 border-yellow-500/30',
+  low: 'text-red-300 bg-red-900/20 border-red-500/30',
+};
+
+const sourceLabel = (source: { uri: string; title: string }) => {
+  if (source.title) return source.title;
+  try {
+    return new URL(source.uri).hostname;
+  } catch {
+    return source.uri;
+  }
+};
+
+const TrendCard: React.FC<TrendCardProps> = ({ trend, status, onUse }) => {
+  const freshness = trendFreshness(trend);
+  // Trends saved before grounding was tracked have no flag at all; only flag known misses
+  const ungrounded = trend.grounded === false;
+
+  return (
+    <div className={`bg-slate-800/50 border hover:bg-slate-800 transition-all p-5 rounded-xl group relative overflow-hidden ${ungrounded ? 'border-red-500/30 hover:border-red-500/50' : 'border-slate-700 hover:border-orange-500/50'}`}>
+      <div className="flex justify-between items-start">
+        <div className="flex-1">
+          <h3 className="text-lg font-bold text-white mb-2 group-hover:text-orange-300 transition-colors">{trend.headline}</h3>
+
+          <div className="flex flex-wrap gap-1.5 mb-3 text-[10px] font-bold uppercase">
+            {status && (
+              <span className={`px-2 py-0.5 rounded border ${STATUS_STYLES[status]}`}>{TREND_STATUS_LABELS[status]}</span>
+            )}
+            {ungrounded && (
+              <span className="flex items-center px-2 py-0.5 rounded border text-red-300 bg-red-900/30 border-red-500/40" title="No search result backs this trend. Verify it before posting.">
+                <AlertTriangle className="w-3 h-3 mr-1" /> Unverified
+              </span>
+            )}
+            {trend.confidence && (
+              <span className={`flex items-center px-2 py-0.5 rounded border ${CONFIDENCE_STYLES[trend.confidence]}`}>
+                <Gauge className="w-3 h-3 mr-1" /> {trend.confidence} confidence
+              </span>
+            )}
+            {trend.firstSeen && (
+              <span className="flex items-center px-2 py-0.5 rounded border text-slate-300 bg-slate-900/50 border-slate-600" title={`First seen around ${trend.firstSeen} (estimate)`}>
+                <Clock className="w-3 h-3 mr-1" /> {freshness ? FRESHNESS_LABELS[freshness] : ''} · since {trend.firstSeen}
+              </span>
+            )}
+            {trend.platforms?.map(p => (
+              <span key={p} className="px-2 py-0.5 rounded border text-indigo-300 bg-indigo-900/20 border-indigo-500/30 normal-case">{p}</span>
+            ))}
+          </div>
+
+          <div className="mb-3">
+            <span className="text-[10px] uppercase font-bold text-orange-400 bg-orange-900/30 px-2 py-1 rounded">Why it's Hot</span>
+            <p className="text-sm text-slate-300 mt-1">
+              {trend.whyItsHot}
+              {trend.sources?.map((_, i) => (
+                <sup key={i} className="ml-0.5 text-[9px] text-orange-300">[{i + 1}]</sup>
+              ))}
+            </p>
+          </div>
+          <div>
+            <span className="text-[10px] uppercase font-bold text-indigo-400 bg-indigo-900/30 px-2 py-1 rounded">Content Idea</span>
+            <p className="text-sm text-slate-300 mt-1">{trend.contentIdea}</p>
+          </div>
+
+          {trend.sources && trend.sources.length > 0 && (
+            <ol className="mt-3 pt-2 border-t border-slate-700/50 space-y-0.5 text-[11px]">
+              {trend.sources.map((source, i) => (
+                <li key={source.uri}>
+                  <a href={source.uri} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-slate-400 hover:text-orange-300">
+                    <span className="mr-1 text-orange-300">[{i + 1}]</span>
+                    {sourceLabel(source)}
+                    <ExternalLink className="w-2.5 h-2.5 ml-1" />
+                  </a>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+        <div className="ml-4">
+          <button
+            onClick={() => onUse(trend)}
+            className="bg-slate-700 hover:bg-orange-600 text-white p-2 rounded-lg transition-colors shadow-lg"
+            title="Use this Trend"
+          >
+            <ArrowRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrendCard;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { AnalysisResult } from '../types';
+import { diffWords } from '../services/textDiff';
+import { allHashtags, bestVariantIndex, MergeField, MergePicks, mergeVariants, picksFor } from '../services/variants';
+import { Trophy, Check, ArrowRight, Columns } from 'lucide-react';
+
+interface VariantComparisonProps {
+  variants: AnalysisResult[];
+  onChoose: (result: AnalysisResult) => void;
+}
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  headline: 'Headline',
+  caption: 'Caption',
+  cta: 'Call To Action',
+  hashtags: 'Hashtags',
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 90) return 'text-green-400';
+  if (score >= 70) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+// Text with words that differ from the baseline highlighted
+const DiffText: React.FC<{ base: string; text: string; isBase: boolean }> = ({ base, text, isBase }) => {
+  if (isBase) return <>{text}</>;
+  return (
+    <>
+      {diffWords(base, text).map((t, i) => t.changed
+        ? <mark key={i} className="bg-emerald-500/20 text-emerald-200 rounded">{t.text}</mark>
+        : <React.Fragment key={i}>{t.text}</React.Fragment>)}
+    </>
+  );
+};
+
+const VariantComparison: React.FC<VariantComparisonProps> = ({ variants, onChoose }) => {
+  const [winner, setWinner] = useState(() => bestVariantIndex(variants));
+  const [picks, setPicks] = useState<MergePicks>(() => picksFor(bestVariantIndex(variants)));
+
+  const baseline = variants[winner];
+  const baselineTags = new Set(allHashtags(baseline));
+  const isMerged = Object.values(picks).some(i => i !== winner);
+
+  const handlePickWinner = (index: number) => {
+    setWinner(index);
+    setPicks(picksFor(index));
+  };
+
+  const FieldCell: React.FC<{ field: MergeField; index: number; children: React.ReactNode }> = ({ field, index, children }) => (
+    <div
+      onClick={() => setPicks({ ...picks, [field]: index })}
+      className={`p-3 rounded-lg border text-sm cursor-pointer transition-colors ${
+        picks[field] === index ? 'border-indigo-500 bg-indigo-900/20' : 'border-slate-700 bg-slate-900 hover:border-slate-500'
+      }`}
+      title={`Use this ${FIELD_LABELS[field].toLowerCase()}`}
+    >
+      {children}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-slate-900/80 border border-indigo-500/30 p-5 rounded-xl flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-white flex items-center">
+            <Columns className="w-5 h-5 mr-2 text-indigo-400" />
+            {variants.length} Variants
+          </h2>
+          <p className="text-xs text-slate-400 mt-1">
+            Pick a winner, then click any field to swap it in from another variant. Highlighted words differ from the winner.
+          </p>
+        </div>
+        <button
+          onClick={() => onChoose(mergeVariants(variants, winner, picks))}
+          className="flex items-center px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-lg transition-colors flex-shrink-0"
+        >
+          {isMerged ? 'Use Merged Result' : 'Use Winner'}
+          <ArrowRight className="w-4 h-4 ml-2" />
+        </button>
+      </div>
+
+      <div className="overflow-x-auto pb-2">
+        <div className="grid gap-3 min-w-max" style={{ gridTemplateColumns: `repeat(${variants.length}, minmax(220px, 1fr))` }}>
+          {variants.map((v, i) => {
+            const delta = v.virality.score - baseline.virality.score;
+            return (
+              <div key={i} className={`space-y-3 p-3 rounded-xl border ${i === winner ? 'border-yellow-500/60 bg-yellow-900/10' : 'border-slate-700 bg-slate-800/40'}`}>
+                {/* Header */}
+                <div className="flex items-start justify-between">
+                  <div>
+                    <span className="text-[10px] uppercase font-bold text-slate-500">Variant {i + 1}</span>
+                    <p className="text-xs font-bold text-indigo-300">{v.visualAudit.hookIdentified}</p>
+                  </div>
+                  <div className="text-right">
+                    <span className={`text-2xl font-bold ${getScoreColor(v.virality.score)}`}>{v.virality.score}</span>
+                    {i !== winner && (
+                      <span className={`block text-[10px] font-bold ${delta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {delta >= 0 ? '+' : ''}{delta} vs winner
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handlePickWinner(i)}
+                  className={`w-full flex items-center justify-center py-1.5 text-xs font-bold rounded-lg border transition-colors ${
+                    i === winner ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-300' : 'border-slate-600 text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {i === winner ? <><Trophy className="w-3.5 h-3.5 mr-1" /> Winner</> : 'Pick as Winner'}
+                </button>
+
+                {/* Fields */}
+                {(['headline', 'caption', 'cta'] as const).map(field => (
+                  <div key={field}>
+                    <span className="text-[10px] uppercase font-bold text-slate-500 flex items-center">
+                      {FIELD_LABELS[field]}
+                      {picks[field] === i && <Check className="w-3 h-3 ml-1 text-indigo-400" />}
+                    </span>
+                    <FieldCell field={field} index={i}>
+                      <p className={`text-slate-200 whitespace-pre-wrap ${field === 'caption' ? 'max-h-48 overflow-y-auto' : 'font-medium'}`}>
+                        <DiffText base={baseline.strategy[field]} text={v.strategy[field]} isBase={i === winner} />
+                      </p>
+                    </FieldCell>
+                  </div>
+                ))}
+                <div>
+                  <span className="text-[10px] uppercase font-bold text-slate-500 flex items-center">
+                    {FIELD_LABELS.hashtags}
+                    {picks.hashtags === i && <Check className="w-3 h-3 ml-1 text-indigo-400" />}
+                  </span>
+                  <FieldCell field="hashtags" index={i}>
+                    <div className="flex flex-wrap gap-1">
+                      {allHashtags(v).map((t, k) => (
+                        <span key={k} className={`text-xs ${i !== winner && !baselineTags.has(t) ? 'text-emerald-300 font-bold' : 'text-blue-400'}`}>{t}</span>
+                      ))}
+                    </div>
+                  </FieldCell>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariantComparison;
@@ -1,5 +1,5 @@
 
-import { HookType, Platform } from "./types";
+import { ContentBrief, HookType, Platform, TrendItem } from "./types";
 
 export const MAX_FILE_SIZE_MB = 10240;
 export const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
@@ -35,22 +35,14 @@ You must return a raw JSON object based on the requested schema. Do not include
 
 export const TREND_HUNTER_INSTRUCTION = (currentDate: string, platform?: string) => `
 You are a viral content expert. Your goal is to identify high-potential trending topics for the user's niche.
-Use your extensive knowledge of viral psychology and evergreen trends to generate 5-8 highly effective content ideas that feel fresh and trending right now.
+Use Google Search to find what is actually gaining traction right now, and turn each trend into a specific content idea.
 
 Current Date: ${currentDate}
 Platform: ${platform || 'All'}
+${platform ? `Only report trends that are playing out on ${platform}, in formats native to ${platform}.` : 'Cover every major platform and note where each trend is playing out.'}
 
-Your goal is to simulate a "Live Trend Hunt" by predicting what is likely viral today based on the niche.
-
-Output Format (JSON):
-[
-  {
-    "headline": "The [Topic] Trap",
-    "whyItsHot": "Controversial takes are trending right now.",
-    "contentIdea": "Film yourself reacting to a common mistake..."
-  }
-]
 Make it sound exciting, urgent, and specific to the requested niche.
+Return raw JSON only, in the exact structure the user asks for.
 `;
 
 export const BRAND_GUARD_INSTRUCTION = (brandText: string) => `
@@ -61,6 +53,55 @@ The user has provided strict Brand Guidelines. You MUST adhere to the following
 - Adapt all specific stylistic choices to match this brand voice.
 `;
 
+export const TREND_CONTEXT_INSTRUCTION = (trend: TrendItem) => `
+**ACTIVE TREND**
+The user wants this content to ride a specific trend:
+- Trend: ${trend.headline}
+- Why it's hot: ${trend.whyItsHot}
+- Suggested angle: ${trend.contentIdea}
+${trend.sources?.length ? `- Sources: ${trend.sources.map(s => s.title ? `${s.title} (${s.uri})` : s.uri).join('; ')}` : ''}
+- Build the hook, caption and hashtags around this trend while staying true to the provided content.
+- Set 'virality.trendDetected' to "${trend.headline}" followed by how this post rides it.
+`;
+
+// What each platform's Cross-Post package must contain
+export const CROSS_POST_FORMATS: Record<Platform, string> = {
+  [Platform.INSTAGRAM]: "Reel/Carousel caption in 'body' (keyword-rich first line), 3-5 'onScreenText' overlays for the Reel, up to 30 hashtags.",
+  [Platform.TIKTOK]: "Hyper-casual caption in 'body' with SEO keywords up front, 3-6 'onScreenText' overlays (first one must land in the first 3 seconds), 3-6 hashtags.",
+  [Platform.YOUTUBE]: "'headline' is the video title (<50 chars for Shorts, CTR-optimized for long-form), 'body' is the full description, 'chapters' with timestamps (mm:ss) for long-form, 3-5 hashtags.",
+  [Platform.LINKEDIN]: "Bro-etry post in 'body' (short lines, professional but vulnerable), 'headline' is the opening line, 3-5 hashtags.",
+  [Platform.TWITTER]: "'thread' is an array of tweets (each under 280 characters, first tweet is the hook), 'body' is the hook tweet, 1-2 hashtags.",
+  [Platform.FACEBOOK]: "Warm, story-driven post in 'body' optimized for shares in Groups, 'headline' is a text-on-background line, 1-3 hashtags.",
+};
+
+export const VARIANT_INSTRUCTION = (hook: string, index: number, total: number) => `
+
+    VARIANT ${index} OF ${total} (A/B Testing).
+    FORCED HOOK: ${hook}
+    Build the entire strategy (headline, caption, CTA) around the "${hook}" hook from the Hook Library.
+    Set 'visualAudit.hookIdentified' to "${hook}".
+    The angle must be clearly different from the other variants; do not reuse their phrasing.
+`;
+
+export const BEAT_THIS_INSTRUCTION = (competitorReportJson: string) => `
+
+    BEAT THIS (Competitor Follow-up).
+    A Competitor Spy run decoded this winning formula from a set of competitor posts:
+    ${competitorReportJson}
+
+    Model the strategy for the provided input on that formula: reuse the structure, hook type, pacing and CTA pattern that make it work, but write everything fresh for this asset. Never copy competitor wording.
+    In 'beatThis', explain the result:
+    - 'borrowed': each element taken from the formula, as { element, fromCompetitor (how the competitor set uses it), inThisPost (how this post applies it) }.
+    - 'differentiators': 2-4 concrete ways this post stands apart from the competitor set (angle, proof, visual identity, CTA), so it doesn't read as a copy.
+`;
+
+export const MEDIA_PREPROCESSING_INSTRUCTION = (notes: string[]) => `
+
+    PREPROCESSED MEDIA.
+    Some videos were reduced in the browser before sending. Treat each keyframe sheet as the video it came from: tiles are in time order, labelled with their timestamp, and the first tile is the opening frame (judge "Compelling Visuals" and the first-seconds hook from it).
+    ${notes.map(note => `- ${note}`).join('\n    ')}
+`;
+
 export const MODE_PROMPTS = {
   GENERATION: (platform: Platform, goal: string, style: string, targeting: string) => `
     MODE A: GENERATION (The Creator).
@@ -72,11 +113,36 @@ export const MODE_PROMPTS = {
     Analyze the provided input (Image/Video).
     Identify the visual hook, select a viral style, write the caption, and generate SEO.
 
-    If Platform is Twitter (X): Structure the 'caption' as a Thread (Tweet 1 [Hook] \n\n Tweet 2... etc).
+    If Platform is Twitter (X): Write a Thread in 'strategy.thread' as an array of { index, text, mediaSuggestion } (index starts at 1, tweet 1 is the Hook, every 'text' under 280 characters, 'mediaSuggestion' describes an image/clip for that tweet or is empty). Set 'caption' to the tweet texts joined by blank lines.
     If Platform is Facebook: Optimize for 'Shareability' and community discussion.
 
     Return a JSON object matching the AnalysisResult interface.
   `,
+  BRIEF_GENERATION: (platform: Platform, goal: string, style: string, targeting: string, brief: ContentBrief) => `
+    MODE A: GENERATION FROM A BRIEF (The Creator).
+    Target Platform: ${platform}.
+    User Goal: ${goal}.
+    Desired Style: ${style}.
+    ${targeting}
+
+    Nothing has been filmed yet. Work from this brief:
+    - Topic: ${brief.topic}
+    ${brief.keyPoints.trim() ? `- Key Points:\n${brief.keyPoints.trim().split('\n').map(p => `      * ${p.trim()}`).join('\n')}` : ''}
+    ${brief.offer.trim() ? `- Offer: ${brief.offer.trim()}` : ''}
+    ${brief.links.trim() ? `- Links (reference in the CTA or caption where the platform allows): ${brief.links.trim().split(/\s+/).join(', ')}` : ''}
+
+    Pick the hook from the Hook Library that best fits the brief, write the caption and generate SEO.
+    In 'visualAudit.summary', describe the planned visual concept; in 'visualAudit.hookIdentified', name the chosen hook.
+    In 'shotList', storyboard what to film as an array of { index, duration, visual, onScreenText, audio }:
+    - Shot 1 delivers the hook within the first 3 seconds.
+    - Match ${platform}'s native format (aspect ratio, ideal length, pacing); 4-8 shots for short-form video.
+    - End on a shot that sets up the CTA.
+
+    If Platform is Twitter (X): Write a Thread in 'strategy.thread' as an array of { index, text, mediaSuggestion } (index starts at 1, tweet 1 is the Hook, every 'text' under 280 characters, 'mediaSuggestion' describes an image/clip for that tweet or is empty). Set 'caption' to the tweet texts joined by blank lines.
+    If Platform is Facebook: Optimize for 'Shareability' and community discussion.
+
+    Return a JSON object matching the AnalysisResult interface, including 'shotList'.
+  `,
   REFINE: (originalText: string, keywords: string, targeting: string) => `
     MODE B: REFINE DRAFT (The Editor).
     Context/Keywords: ${keywords}.
@@ -89,17 +155,58 @@ export const MODE_PROMPTS = {
   `,
   COMPETITOR_SPY: (count: number, targeting: string) => `
     MODE C: COMPETITOR SPY (The Reverse Engineer).
-    Analyzing ${count} inputs as a "Data Set".
+    Analyzing ${count} inputs as a "Data Set". Inputs are attached in order: input 1 is the first attachment.
     ${targeting}
-    Do NOT analyze individually. Look for patterns.
+    First break down every input on its own, then look for the patterns across the set.
     Deconstruct the "Viral DNA": Pacing, Color Psychology, Hook ID.
 
     Return a JSON object.
     - In 'visualAudit.summary', describe the common pattern found across all inputs.
+    - In 'visualAudit.hookIdentified', name the hook used most across the set.
     - In 'strategy.caption', provide a fill-in-the-blank Viral Template tailored to the target audience.
-    - In 'competitorInsights', fill the object with 'visualTheme', 'ctaStrategy', and 'formula'.
+    - In 'competitorInsights', fill 'visualTheme', 'ctaStrategy' and 'formula' (the reusable formula behind the set), plus:
+      - 'assets': exactly ${count} rows, one per input in order, as { fileIndex (1-based), hookType (from the Hook Library), pacing, dominantColors (2-4 hex codes), cta, onScreenText (verbatim, empty if none), format (estimated format and length, e.g. "Talking-head Reel, ~30s") }.
+      - 'recurringPhrases': wording or text-overlay patterns used by more than one input, as { phrase, count } where count is the number of inputs using it.
   `,
-  TREND_HUNTER: (niche: string, currentDate: string) => `
+  CROSS_POST: (platform: Platform, goal: string, style: string, targeting: string) => `
+    MODE E: CROSS-POST (The Syndicator).
+    Target Platform: ${platform}.
+    User Goal: ${goal}.
+    Desired Style: ${style}.
+    ${targeting}
+
+    Analyze the provided input (Image/Video) and produce a native, ready-to-post package for ${platform} only.
+    Package Format: ${CROSS_POST_FORMATS[platform]}
+    Do not simply reuse copy written for other platforms; adapt tone, length and structure to ${platform}.
+
+    Return a JSON object matching the CrossPostPackage interface.
+  `,
+  REVISE: (platform: Platform, currentResultJson: string, instructions: string) => `
+    MODE: REVISION (The Fixer).
+    Target Platform: ${platform}.
+
+    Below is a previously generated AnalysisResult:
+    ${currentResultJson}
+
+    Required changes:
+    ${instructions}
+
+    Apply ONLY the required changes. Keep every other field as close to the original as possible.
+    If the result has 'strategy.thread', edit the tweets there and keep 'caption' equal to the tweet texts joined by blank lines.
+    Return the complete, corrected JSON object matching the AnalysisResult interface.
+  `,
+  REPAIR: (errors: string[], previousReply: string) => `
+    MODE: REPAIR (The Validator).
+    Your previous reply could not be used because it failed validation:
+    ${errors.map(e => `- ${e}`).join('\n    ')}
+
+    Previous reply:
+    ${previousReply}
+
+    Return the same content as a corrected JSON object that fixes every error above.
+    Do not add commentary or markdown formatting.
+  `,
+  TREND_HUNTER: (niche: string, currentDate: string, platform?: Platform) => `
     🔥 VIRAL TREND HUNTER - REAL-TIME INSIGHTS 🔥
 
     **YOUR NICHE:** ${niche}
@@ -108,6 +215,13 @@ export const MODE_PROMPTS = {
     Your Mission: You are a social media trend expert who knows EXACTLY what's blowing up right now. Search for the hottest, most shareable trends happening TODAY across Google, TikTok, Instagram, YouTube, and Twitter.
 
     **SEARCH INSTRUCTIONS** (Be thorough and specific):
+    ${platform ? `
+    **PLATFORM FOCUS:** ${platform} only. Ignore trends that aren't happening on ${platform}.
+    1. Search for "trending ${niche} ${platform} today ${currentDate}"
+    2. Search for "viral ${niche} ${platform} trends"
+    3. Search for "${platform} trending formats and sounds ${currentDate}"
+    4. Search for "what's new on ${platform} for creators"
+    ` : `
     1. Search for "trending ${niche} today ${currentDate}"
     2. Search for "viral ${niche} TikTok trends"
     3. Search for "Instagram trending ${niche} content"
@@ -115,6 +229,7 @@ export const MODE_PROMPTS = {
     5. Search for "what's trending on Twitter about ${niche}"
     6. Search for "newest viral challenges 2025"
     7. Search for "viral audio and sounds for ${niche}"
+    `}
 
     **WHAT MAKES A TREND "HOT":**
     - It's happening RIGHT NOW (not last month)
@@ -130,7 +245,10 @@ export const MODE_PROMPTS = {
         {
           "headline": "Catchy trend name (what it's called)",
           "whyItsHot": "Explain in a casual, human tone WHY this is going crazy right now. 1-2 sentences. Make it feel authentic and conversational.",
-          "contentIdea": "Give a SPECIFIC, actionable idea for how someone in the ${niche} space can jump on this trend. Be detailed and practical."
+          "contentIdea": "Give a SPECIFIC, actionable idea for how someone in the ${niche} space can jump on this trend. Be detailed and practical.",
+          "firstSeen": "YYYY-MM-DD. Your best estimate of when this trend started gaining traction, based on the dates in the search results.",
+          "confidence": "high | medium | low. How strongly the search results show this is trending now.",
+          "platforms": ["The platform names (Instagram, TikTok, YouTube, LinkedIn, Twitter (X), Facebook) where it's playing out"]
         },
         ... (8-10 items total)
       ]
@@ -139,5 +257,52 @@ export const MODE_PROMPTS = {
     **TONE:** Sound like a friend who's scrolling through the internet RIGHT NOW and genuinely excited about what they're finding. Use casual language. Be specific. Don't sound robotic.
 
     **QUALITY OVER QUANTITY:** Make sure EVERY trend is legitimate, current, and actually applicable to ${niche}.
+
+    **GROUNDING:** Only report trends you actually found in the search results, and describe them with the facts those results contain. If you include a trend from general knowledge instead, set "confidence" to "low".
+  `,
+  POSTING_CADENCE: (niche: string, platforms: Platform[], targeting: string) => `
+    MODE: POSTING CADENCE (The Scheduler).
+    Recommend a sustainable posting rhythm for a creator in the "${niche}" niche.
+    Platforms: ${platforms.join(', ')}
+    ${targeting}
+
+    For EACH platform above return:
+    - "platform": the platform name exactly as listed
+    - "postsPerWeek": an integer (how often the algorithm rewards posting without burning out the audience)
+    - "bestDays": weekday names, as many as postsPerWeek
+    - "bestTimes": 1-3 times in 24h "HH:MM" format, in the audience's local time
+    - "rationale": one sentence explaining the rhythm for this niche and platform
+
+    Output Format (JSON): { "cadence": [ { "platform": "...", "postsPerWeek": 3, "bestDays": ["Tuesday"], "bestTimes": ["18:30"], "rationale": "..." } ] }
+  `,
+  HOOK_ANALYSIS: (platform: Platform, times: number[], hasAudio: boolean, targeting: string) => `
+    MODE: HOOK ANALYSIS (The Editor).
+    Target Platform: ${platform}.
+    ${targeting}
+
+    The attached images are frames from the opening of one video, in order, at ${times.map(t => `${t}s`).join(', ')}.
+    ${hasAudio
+      ? 'The attached audio is the soundtrack of the same seconds.'
+      : 'No audio is available: judge speech from captions and mouth movement, and use null for "speechStart" if you cannot tell.'}
+
+    Judge whether these seconds stop the scroll on ${platform}, applying the PLATFORM ARCHITECTURE rules (TikTok: SEO keywords spoken or on screen in the first 3s; Instagram Reels: a loopable, keyword-rich hook).
+    Return:
+    - "moments": exactly one entry per frame, in order: { "time" (the frame's timestamp), "textOverlay" (on-screen text, "" if none), "motion" (camera or subject movement), "speech" (words heard around this moment, "" if silent), "note" (what this moment does for or against the hook) }
+    - "firstFrameText": the text overlay in the first frame, "" if none
+    - "speechStart": seconds at which speech begins, or null if nobody speaks in these seconds
+    - "hookType": the hook from THE HOOK LIBRARY these seconds use
+    - "dropOffRisk": "low", "medium" or "high", the chance a viewer swipes away before the hook lands, with "dropOffReason" in one sentence
+    - "edits": 2-4 concrete re-edits, each { "time" (seconds where it applies), "edit" (what to change, e.g. "Put 'Stop skipping this step' on screen from 0.0s, not 1.5s") }
+
+    Output Format (JSON): { "moments": [ ... ], "firstFrameText": "...", "speechStart": 0.5, "hookType": "...", "dropOffRisk": "medium", "dropOffReason": "...", "edits": [ ... ] }
+  `,
+  TRANSCRIPT: (fileName: string) => `
+    MODE: TRANSCRIPT (The Listener).
+    The attached audio is the soundtrack of the video "${fileName}".
+    Transcribe the spoken words verbatim, in the language spoken. Prefix each sentence with its start time as [m:ss].
+    Describe music or sound effects in brackets only where there is no speech, e.g. [upbeat music].
+    If nothing is said at all, return an empty transcript.
+
+    Output Format (JSON): { "transcript": "..." }
   `
 };
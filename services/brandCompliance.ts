@@ -0,0 +1,246 @@
+import { AnalysisResult } from "../types";
+import { charCount } from "./platformRules";
+
+// Deterministic Brand Guard checks. The model is told to obey the rules;
+// this verifies that it actually did.
+
+export interface BrandRules {
+  forbidden: string[];
+  required: string[];
+  noEmoji: boolean;
+  maxLength?: number;
+  noAllCaps: boolean;
+  lowercaseOnly: boolean;
+  // Terms that must appear with this exact casing (e.g. "iPhone")
+  casedTerms: string[];
+}
+
+export type BrandViolationRule = 'forbidden' | 'required' | 'emoji' | 'maxLength' | 'casing';
+
+export type BrandField =
+  | 'headline'
+  | 'caption'
+  | 'cta'
+  | 'hashtags.broad'
+  | 'hashtags.niche'
+  | 'hashtags.specific';
+
+export interface BrandViolation {
+  rule: BrandViolationRule;
+  message: string;
+  // Missing required mentions have no single location
+  field?: BrandField;
+  index?: number; // Position within a hashtag tier
+  start?: number;
+  end?: number;
+}
+
+export const EMPTY_BRAND_RULES: BrandRules = {
+  forbidden: [],
+  required: [],
+  noEmoji: false,
+  noAllCaps: false,
+  lowercaseOnly: false,
+  casedTerms: [],
+};
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches a term as a whole word, ignoring case
+const termPattern = (term: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu');
+
+// Pull quoted terms out of a sentence, falling back to a comma-separated list
+const extractTerms = (text: string): string[] => {
+  const quoted = Array.from(text.matchAll(/["'“‘]([^"'”’]+)["'”’]/g)).map(m => m[1].trim());
+  if (quoted.length > 0) return quoted;
+  return text
+    .split(/,|;|\bor\b|\band\b/i)
+    .map(t => t.replace(/[.!]+$/, '').trim())
+    .filter(t => t.length > 0 && t.split(/\s+/).length <= 4);
+};
+
+const unique = (list: string[]) => Array.from(new Set(list.map(t => t.trim()).filter(Boolean)));
+
+export const parseBrandRules = (text: string): BrandRules => {
+  const rules: BrandRules = { ...EMPTY_BRAND_RULES, forbidden: [], required: [], casedTerms: [] };
+  if (!text.trim()) return rules;
+
+  for (const rawLine of text.split(/\n|(?<=[.!])\s+/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (/\b(no|never use|avoid|don'?t use|without)\s+emoji/i.test(line)) {
+      rules.noEmoji = true;
+      continue;
+    }
+    if (/\b(no|never use|avoid|don'?t use)\s+all[- ]caps\b/i.test(line)) {
+      rules.noAllCaps = true;
+      continue;
+    }
+    if (/\b(all lowercase|lowercase only|only lowercase)\b/i.test(line)) {
+      rules.lowercaseOnly = true;
+      continue;
+    }
+
+    const lengthMatch = line.match(/\b(?:max(?:imum)?|under|no more than|at most|up to|limit(?:ed)? to)\s+(\d[\d,]*)\s*(?:characters|chars)\b/i);
+    if (lengthMatch) {
+      rules.maxLength = parseInt(lengthMatch[1].replace(/,/g, ''), 10);
+      continue;
+    }
+
+    const forbiddenList = line.match(/^(?:forbidden|banned|blocked)(?:\s+(?:words|phrases|terms))?\s*:\s*(.+)$/i);
+    if (forbiddenList) {
+      rules.forbidden.push(...forbiddenList[1].split(',').map(t => t.trim()));
+      continue;
+    }
+    const requiredList = line.match(/^(?:mandatory|required)(?:\s+(?:mentions|words|phrases|terms))?\s*:\s*(.+)$/i);
+    if (requiredList) {
+      rules.required.push(...requiredList[1].split(',').map(t => t.trim()));
+      continue;
+    }
+
+    const forbiddenSentence = line.match(/\b(?:never (?:use|say|mention|write)|don'?t (?:use|say|mention|write)|do not (?:use|say|mention|write)|avoid(?: using| saying)?)\s+(?:the (?:words?|phrases?|terms?)\s+)?(.+)$/i);
+    if (forbiddenSentence) {
+      rules.forbidden.push(...extractTerms(forbiddenSentence[1]));
+      continue;
+    }
+
+    const casedSentence = line.match(/\b(?:always\s+)?(?:write|spell|capitali[sz]e)\b.*?["'“‘]([^"'”’]+)["'”’]/i);
+    if (casedSentence) {
+      rules.casedTerms.push(casedSentence[1].trim());
+      continue;
+    }
+
+    const requiredSentence = line.match(/\b(?:always|must)\s+(?:mention|include|reference|say)\s+(.+)$/i);
+    if (requiredSentence) {
+      rules.required.push(...extractTerms(requiredSentence[1]));
+    }
+  }
+
+  rules.forbidden = unique(rules.forbidden);
+  rules.required = unique(rules.required);
+  rules.casedTerms = unique(rules.casedTerms);
+  return rules;
+};
+
+export const hasBrandRules = (rules: BrandRules) =>
+  rules.forbidden.length > 0 ||
+  rules.required.length > 0 ||
+  rules.casedTerms.length > 0 ||
+  rules.noEmoji ||
+  rules.noAllCaps ||
+  rules.lowercaseOnly ||
+  rules.maxLength !== undefined;
+
+interface ScannedText {
+  field: BrandField;
+  index?: number;
+  text: string;
+}
+
+const collectTexts = (result: AnalysisResult): ScannedText[] => {
+  const texts: ScannedText[] = [
+    { field: 'headline', text: result.strategy.headline },
+    { field: 'caption', text: result.strategy.caption },
+    { field: 'cta', text: result.strategy.cta },
+  ];
+  (['broad', 'niche', 'specific'] as const).forEach(tier => {
+    (result.seo.hashtags[tier] || []).forEach((tag, index) => {
+      texts.push({ field: `hashtags.${tier}`, index, text: tag });
+    });
+  });
+  return texts;
+};
+
+export const BRAND_FIELD_LABELS: Record<BrandField, string> = {
+  'headline': 'Headline',
+  'caption': 'Caption',
+  'cta': 'CTA',
+  'hashtags.broad': 'Broad hashtags',
+  'hashtags.niche': 'Niche hashtags',
+  'hashtags.specific': 'Specific hashtags',
+};
+
+export const checkBrandCompliance = (result: AnalysisResult, rules: BrandRules): BrandViolation[] => {
+  const violations: BrandViolation[] = [];
+  const texts = collectTexts(result);
+
+  for (const { field, index, text } of texts) {
+    if (!text) continue;
+
+    for (const term of rules.forbidden) {
+      // Hashtags drop spaces, so also catch "#greenwashing" for "green washing"
+      const patterns = field.startsWith('hashtags') && /\s/.test(term)
+        ? [termPattern(term), termPattern(term.replace(/\s+/g, ''))]
+        : [termPattern(term)];
+      for (const pattern of patterns) {
+        for (const match of text.matchAll(pattern)) {
+          violations.push({ rule: 'forbidden', message: `Forbidden word "${term}"`, field, index, start: match.index!, end: match.index! + match[0].length });
+        }
+      }
+    }
+
+    if (rules.noEmoji) {
+      for (const match of text.matchAll(EMOJI_PATTERN)) {
+        violations.push({ rule: 'emoji', message: 'Emoji are not allowed', field, index, start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+
+    for (const term of rules.casedTerms) {
+      for (const match of text.matchAll(termPattern(term))) {
+        if (match[0] !== term) {
+          violations.push({ rule: 'casing', message: `Write "${term}", not "${match[0]}"`, field, index, start: match.index!, end: match.index! + match[0].length });
+        }
+      }
+    }
+
+    if (rules.noAllCaps) {
+      for (const match of text.matchAll(/(?<![\p{L}\p{N}])\p{Lu}{4,}(?![\p{L}\p{N}])/gu)) {
+        violations.push({ rule: 'casing', message: 'All-caps words are not allowed', field, index, start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+
+    if (rules.lowercaseOnly) {
+      for (const match of text.matchAll(/\p{Lu}+/gu)) {
+        violations.push({ rule: 'casing', message: 'Brand voice is lowercase only', field, index, start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+  }
+
+  // Counted like the platform limits (code points); the highlight offsets stay UTF-16
+  const caption = result.strategy.caption;
+  if (rules.maxLength !== undefined && charCount(caption) > rules.maxLength) {
+    violations.push({
+      rule: 'maxLength',
+      message: `Caption is ${charCount(caption)} characters (max ${rules.maxLength})`,
+      field: 'caption',
+      start: Array.from(caption).slice(0, rules.maxLength).join('').length,
+      end: caption.length,
+    });
+  }
+
+  const fullText = texts.map(t => t.text).join('\n');
+  for (const term of rules.required) {
+    const found = termPattern(term).test(fullText) || termPattern(term.replace(/\s+/g, '')).test(fullText);
+    if (!found) {
+      violations.push({ rule: 'required', message: `Missing required mention "${term}"` });
+    }
+  }
+
+  return violations;
+};
+
+// Plain-language list the model can act on in a revision pass
+export const describeViolations = (violations: BrandViolation[], result: AnalysisResult): string =>
+  violations.map((v, i) => {
+    if (!v.field) return `${i + 1}. ${v.message}. Work it naturally into the caption or CTA.`;
+    const location = v.index !== undefined ? `${BRAND_FIELD_LABELS[v.field]} #${v.index + 1}` : BRAND_FIELD_LABELS[v.field];
+    const source = v.field.startsWith('hashtags')
+      ? result.seo.hashtags[v.field.split('.')[1] as 'broad' | 'niche' | 'specific'][v.index!]
+      : result.strategy[v.field as 'headline' | 'caption' | 'cta'];
+    const excerpt = v.start !== undefined && v.rule !== 'maxLength' ? ` ("${source.slice(v.start, v.end)}")` : '';
+    return `${i + 1}. ${location}: ${v.message}${excerpt}.`;
+  }).join('\n');
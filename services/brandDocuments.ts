@@ -0,0 +1,78 @@
+// Client-side text extraction for Brand Guard style guides.
+// Nothing here leaves the browser; only the extracted text is sent to the model.
+
+export const BRAND_DOC_ACCEPT = '.pdf,.docx,.md,.markdown,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/markdown,text/plain';
+
+// Style guides can be long; cap what we inject so the prompt stays focused.
+export const MAX_BRAND_TEXT_CHARS = 12000;
+
+export interface BrandDocument {
+  name: string;
+  text: string;
+  error?: string;
+}
+
+const extensionOf = (file: File) => file.name.split('.').pop()?.toLowerCase() || '';
+
+const extractPdfText = async (file: File): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    pages.push(content.items.map((item: any) => ('str' in item ? item.str : '')).join(' '));
+  }
+  return pages.join('\n\n');
+};
+
+const extractDocxText = async (file: File): Promise<string> => {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+};
+
+// Collapse runs of blank lines and trailing spaces left over from extraction
+const tidy = (text: string) => text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+export const isBrandDocument = (file: File) =>
+  ['pdf', 'docx', 'md', 'markdown', 'txt'].includes(extensionOf(file));
+
+export const extractBrandDocument = async (file: File): Promise<BrandDocument> => {
+  try {
+    const ext = extensionOf(file);
+    let text: string;
+    if (ext === 'pdf') {
+      text = await extractPdfText(file);
+    } else if (ext === 'docx') {
+      text = await extractDocxText(file);
+    } else if (isBrandDocument(file)) {
+      text = await file.text();
+    } else {
+      return { name: file.name, text: '', error: 'Unsupported file type. Use PDF, DOCX, Markdown or plain text.' };
+    }
+
+    text = tidy(text);
+    if (!text) return { name: file.name, text: '', error: 'No readable text found (scanned PDFs are not supported).' };
+    return { name: file.name, text };
+  } catch (error) {
+    console.error("Brand document extraction error:", error);
+    return { name: file.name, text: '', error: 'Could not read this document.' };
+  }
+};
+
+// Combine pasted guidelines with extracted documents into the text Brand Guard receives
+export const mergeBrandGuidelines = (pasted: string, documents: BrandDocument[]): string => {
+  const sections = [
+    pasted.trim(),
+    ...documents
+      .filter(d => d.text)
+      .map(d => `[From ${d.name}]\n${d.text}`)
+  ].filter(Boolean);
+
+  const merged = sections.join('\n\n');
+  if (merged.length <= MAX_BRAND_TEXT_CHARS) return merged;
+  return merged.slice(0, MAX_BRAND_TEXT_CHARS) + '\n[...truncated]';
+};
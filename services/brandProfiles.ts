@@ -0,0 +1,109 @@
+import { BrandProfile, ConfigState, Platform } from "../types";
+
+const STORAGE_KEY = 'brand_profiles';
+const ACTIVE_KEY = 'active_brand_profile';
+
+const newId = () => crypto.randomUUID();
+
+export const createBrandProfile = (name = 'New Brand'): BrandProfile => ({
+  id: newId(),
+  name,
+  voiceDescription: '',
+  forbiddenWords: [],
+  mandatoryMentions: [],
+  preferredHashtags: [],
+  geography: '',
+  targetLanguage: '',
+  targetAudience: '',
+  demographics: '',
+  platform: Platform.INSTAGRAM,
+  updatedAt: Date.now(),
+});
+
+export const duplicateBrandProfile = (profile: BrandProfile): BrandProfile => ({
+  ...profile,
+  id: newId(),
+  name: `${profile.name} (Copy)`,
+  updatedAt: Date.now(),
+});
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+
+// Accepts anything (localStorage, imported files) and returns a well-formed profile or null
+const normalizeProfile = (raw: any): BrandProfile | null => {
+  if (!raw || typeof raw !== 'object' || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  const base = createBrandProfile(raw.name.trim());
+  return {
+    ...base,
+    id: typeof raw.id === 'string' && raw.id ? raw.id : base.id,
+    voiceDescription: typeof raw.voiceDescription === 'string' ? raw.voiceDescription : '',
+    forbiddenWords: toStringList(raw.forbiddenWords),
+    mandatoryMentions: toStringList(raw.mandatoryMentions),
+    preferredHashtags: toStringList(raw.preferredHashtags),
+    geography: typeof raw.geography === 'string' ? raw.geography : '',
+    targetLanguage: typeof raw.targetLanguage === 'string' ? raw.targetLanguage : '',
+    targetAudience: typeof raw.targetAudience === 'string' ? raw.targetAudience : '',
+    demographics: typeof raw.demographics === 'string' ? raw.demographics : '',
+    platform: Object.values(Platform).includes(raw.platform) ? raw.platform : Platform.INSTAGRAM,
+    updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : base.updatedAt,
+  };
+};
+
+export const loadBrandProfiles = (): BrandProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(normalizeProfile).filter((p): p is BrandProfile => p !== null) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveBrandProfiles = (profiles: BrandProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveBrandProfileId = (): string | null => localStorage.getItem(ACTIVE_KEY);
+
+export const saveActiveBrandProfileId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_KEY, id);
+  else localStorage.removeItem(ACTIVE_KEY);
+};
+
+export const exportBrandProfiles = (profiles: BrandProfile[]): string =>
+  JSON.stringify({ version: 1, profiles }, null, 2);
+
+// Imported profiles whose id already exists replace the local copy
+export const importBrandProfiles = (json: string, existing: BrandProfile[]): BrandProfile[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  const rawList = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.profiles) ? parsed.profiles : [parsed];
+  const imported = rawList.map(normalizeProfile).filter((p: BrandProfile | null): p is BrandProfile => p !== null);
+  if (imported.length === 0) throw new Error("No brand profiles found in this file.");
+
+  const byId = new Map(existing.map(p => [p.id, p]));
+  imported.forEach((p: BrandProfile) => byId.set(p.id, p));
+  return Array.from(byId.values());
+};
+
+// Renders a profile as the plain-text rules Brand Guard injects into the prompt
+export const brandProfileToGuidelines = (profile: BrandProfile): string => [
+  `Brand: ${profile.name}`,
+  profile.voiceDescription && `Voice: ${profile.voiceDescription}`,
+  profile.forbiddenWords.length > 0 && `Forbidden words: ${profile.forbiddenWords.join(', ')}`,
+  profile.mandatoryMentions.length > 0 && `Mandatory mentions: ${profile.mandatoryMentions.join(', ')}`,
+  profile.preferredHashtags.length > 0 && `Preferred hashtags: ${profile.preferredHashtags.join(' ')}`,
+].filter(Boolean).join('\n');
+
+export const applyBrandProfile = (config: ConfigState, profile: BrandProfile): ConfigState => ({
+  ...config,
+  brandGuidelines: brandProfileToGuidelines(profile),
+  geography: profile.geography,
+  targetLanguage: profile.targetLanguage,
+  targetAudience: profile.targetAudience,
+  demographics: profile.demographics,
+});
@@ -0,0 +1,48 @@
+// Helpers for threading an AbortSignal through uploads, polling and generation
+
+export const createAbortError = () => new DOMException('The operation was cancelled.', 'AbortError');
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// setTimeout that rejects as soon as the signal aborts (used between poll attempts)
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// A signal that aborts when `parent` aborts or after `ms`, whichever comes first.
+// `timedOut()` tells the two apart so a timeout isn't reported as a user cancel.
+export const withTimeout = (parent: AbortSignal | undefined, ms: number) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, ms);
+
+  if (parent?.aborted) controller.abort();
+  else parent?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+};
@@ -0,0 +1,92 @@
+import { AnalysisResult, Competitor, CompetitorInsights, CompetitorRun, HookType } from "../types";
+import { getAll, put, remove, STORES } from "./db";
+import { hookDistribution, HookShare } from "./competitorReport";
+
+// Competitor benchmark library: Spy runs tagged with the account they decoded, so a
+// competitor's theme, hook mix and CTA strategy can be followed from run to run.
+
+export type InsightField = 'visualTheme' | 'ctaStrategy' | 'formula';
+
+export const INSIGHT_FIELD_LABELS: Record<InsightField, string> = {
+  visualTheme: 'Visual Theme',
+  ctaStrategy: 'CTA Strategy',
+  formula: 'Formula',
+};
+
+export interface HookShift {
+  hook: HookType;
+  previous: number; // Share 0..1 in the older run
+  current: number;
+  delta: number; // current - previous
+}
+
+export interface CompetitorRunDiff {
+  changedFields: InsightField[];
+  hooks: HookShift[]; // Every hook used in either run, biggest swing first
+}
+
+const normalizeName = (name: string) => name.trim().replace(/^@/, '').toLowerCase();
+
+export const findCompetitor = (competitors: Competitor[], name: string) =>
+  competitors.find(c => normalizeName(c.name) === normalizeName(name));
+
+export const createCompetitor = (name: string): Competitor => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  runs: [],
+  createdAt: Date.now(),
+});
+
+export const competitorRunFrom = (result: AnalysisResult, fileCount: number): CompetitorRun => ({
+  id: crypto.randomUUID(),
+  runAt: Date.now(),
+  summary: result.visualAudit.summary,
+  dominantHook: result.visualAudit.hookIdentified,
+  insights: result.competitorInsights as CompetitorInsights,
+  fileCount,
+});
+
+export const addCompetitorRun = (competitor: Competitor, run: CompetitorRun): Competitor => ({
+  ...competitor,
+  runs: [run, ...competitor.runs].sort((a, b) => b.runAt - a.runAt),
+});
+
+export const removeCompetitorRun = (competitor: Competitor, runId: string): Competitor => ({
+  ...competitor,
+  runs: competitor.runs.filter(r => r.id !== runId),
+});
+
+// Runs from before the per-asset report only know the dominant hook
+export const runHookMix = (run: CompetitorRun): HookShare[] =>
+  run.insights.assets?.length
+    ? hookDistribution(run.insights.assets)
+    : [{ hook: run.dominantHook, count: 1, share: 1 }];
+
+export const diffCompetitorRuns = (previous: CompetitorRun, current: CompetitorRun): CompetitorRunDiff => {
+  const changedFields = (Object.keys(INSIGHT_FIELD_LABELS) as InsightField[])
+    .filter(field => previous.insights[field].trim().toLowerCase() !== current.insights[field].trim().toLowerCase());
+
+  const before = new Map(runHookMix(previous).map(h => [h.hook, h.share]));
+  const after = new Map(runHookMix(current).map(h => [h.hook, h.share]));
+  const hooks = Array.from(new Set([...before.keys(), ...after.keys()]))
+    .map((hook): HookShift => {
+      const prev = before.get(hook) || 0;
+      const next = after.get(hook) || 0;
+      return { hook, previous: prev, current: next, delta: next - prev };
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || b.current - a.current);
+
+  return { changedFields, hooks };
+};
+
+export const runMonthLabel = (run: CompetitorRun) =>
+  new Date(run.runAt).toLocaleString('default', { month: 'long', year: 'numeric' });
+
+export const listCompetitors = async (): Promise<Competitor[]> => {
+  const competitors = await getAll<Competitor>(STORES.COMPETITORS);
+  return competitors.sort((a, b) => (b.runs[0]?.runAt ?? b.createdAt) - (a.runs[0]?.runAt ?? a.createdAt));
+};
+
+export const saveCompetitor = (competitor: Competitor) => put(STORES.COMPETITORS, competitor);
+
+export const deleteCompetitor = (id: string) => remove(STORES.COMPETITORS, id);
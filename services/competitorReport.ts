@@ -0,0 +1,70 @@
+import { AnalysisResult, CompetitorAsset, HookType } from "../types";
+import { toCsv } from "./csv";
+
+// Competitor Spy report: per-asset rows from the model plus aggregates computed here,
+// so the hook mix always adds up to the rows it's drawn from.
+
+export type AssetSortKey = 'fileIndex' | 'fileName' | 'hookType' | 'pacing' | 'cta' | 'onScreenText' | 'format';
+
+export const ASSET_COLUMNS: { key: AssetSortKey; label: string }[] = [
+  { key: 'fileIndex', label: '#' },
+  { key: 'fileName', label: 'File' },
+  { key: 'hookType', label: 'Hook' },
+  { key: 'pacing', label: 'Pacing' },
+  { key: 'cta', label: 'CTA' },
+  { key: 'onScreenText', label: 'On-Screen Text' },
+  { key: 'format', label: 'Format' },
+];
+
+export interface HookShare {
+  hook: HookType;
+  count: number;
+  share: number; // 0..1 of all assets
+}
+
+// The model only sees attachments by position; names come from the upload
+export const attachAssetNames = (result: AnalysisResult, fileNames: string[]): AnalysisResult => {
+  const assets = result.competitorInsights?.assets;
+  if (!assets) return result;
+  return {
+    ...result,
+    competitorInsights: {
+      ...result.competitorInsights!,
+      assets: assets.map(a => ({ ...a, fileName: fileNames[a.fileIndex - 1] || `Input ${a.fileIndex}` })),
+    },
+  };
+};
+
+// Hooks used in the set, most common first
+export const hookDistribution = (assets: CompetitorAsset[]): HookShare[] => {
+  const counts = new Map<HookType, number>();
+  assets.forEach(a => counts.set(a.hookType, (counts.get(a.hookType) || 0) + 1));
+  return Array.from(counts, ([hook, count]) => ({ hook, count, share: count / assets.length }))
+    .sort((a, b) => b.count - a.count || a.hook.localeCompare(b.hook));
+};
+
+export const sortAssets = (assets: CompetitorAsset[], key: AssetSortKey, ascending: boolean): CompetitorAsset[] =>
+  [...assets].sort((a, b) => {
+    const order = key === 'fileIndex' ? a.fileIndex - b.fileIndex : a[key].localeCompare(b[key]);
+    return ascending ? order : -order;
+  });
+
+// Asset table first, then the aggregates as their own blocks
+export const competitorReportToCsv = (result: AnalysisResult): string => {
+  const insights = result.competitorInsights;
+  const assets = insights?.assets || [];
+  return toCsv([
+    [...ASSET_COLUMNS.map(c => c.label), 'Dominant Colors'],
+    ...assets.map(a => [a.fileIndex, a.fileName, a.hookType, a.pacing, a.cta, a.onScreenText, a.format, a.dominantColors.join(' ')]),
+    [],
+    ['Hook Type', 'Assets', 'Share'],
+    ...hookDistribution(assets).map(h => [h.hook, h.count, `${Math.round(h.share * 100)}%`]),
+    [],
+    ['Recurring Phrase', 'Assets'],
+    ...(insights?.recurringPhrases || []).map(p => [p.phrase, p.count]),
+    [],
+    ['Visual Theme', insights?.visualTheme || ''],
+    ['CTA Strategy', insights?.ctaStrategy || ''],
+    ['Formula', insights?.formula || ''],
+  ]);
+};
@@ -0,0 +1,211 @@
+import { AnalysisResult, CalendarEntry, HistoryEntry, Platform, PostingCadence, TrendItem } from "../types";
+import { getAll, put, remove, STORES } from "./db";
+import { toCsv } from "./csv";
+
+// Content calendar: planned posts stored in IndexedDB, grid date math, and
+// .ics / CSV export for schedulers. Dates are local days ("YYYY-MM-DD") and
+// local times ("HH:MM") so a plan doesn't shift when the timezone does.
+
+export type CalendarView = 'week' | 'month';
+
+// Row starts in the week view; an entry sits in the last slot at or before its time
+export const TIME_SLOTS = ['06:00', '09:00', '12:00', '15:00', '18:00', '21:00'];
+
+export const DEFAULT_POST_TIME = '12:00';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// What can be dropped onto the calendar
+export type CalendarSource =
+  | { kind: 'trend'; trend: TrendItem }
+  | { kind: 'result'; result: AnalysisResult; platform: Platform };
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+
+export const weekDates = (anchor: Date): Date[] => {
+  const start = startOfWeek(anchor);
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+};
+
+// Whole weeks covering the anchor's month (4 to 6 rows)
+export const monthDates = (anchor: Date): Date[] => {
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const dates: Date[] = [];
+  for (let d = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1)); d <= last || dates.length % 7 !== 0; d = addDays(d, 1)) {
+    dates.push(d);
+  }
+  return dates;
+};
+
+export const slotOf = (time: string) =>
+  TIME_SLOTS.reduce((slot, start) => (time >= start ? start : slot), TIME_SLOTS[0]);
+
+export const cadenceFor = (cadence: PostingCadence[], platform: Platform) =>
+  cadence.find(c => c.platform === platform);
+
+export const isSuggestedDay = (cadence: PostingCadence[], platform: Platform, date: Date) =>
+  !!cadenceFor(cadence, platform)?.bestDays.includes(date.getDay());
+
+// Time for a post dropped on a whole day: the platform's first suggested time, if any
+export const suggestedTime = (cadence: PostingCadence[], platform: Platform) =>
+  cadenceFor(cadence, platform)?.bestTimes[0] || DEFAULT_POST_TIME;
+
+// Time for a post dropped into a week-view slot: a suggested time inside the slot, else its start
+export const timeInSlot = (cadence: PostingCadence[], platform: Platform, slot: string) =>
+  cadenceFor(cadence, platform)?.bestTimes.find(t => slotOf(t) === slot) || slot;
+
+export interface TrayItem {
+  key: string;
+  source: CalendarSource;
+}
+
+// Everything that can still be scheduled: trends and results from saved runs, newest first.
+// Trends repeat across hunts, so they're listed once per headline.
+export const trayItemsFromHistory = (entries: HistoryEntry[], currentTrends: TrendItem[] = []): TrayItem[] => {
+  const seen = new Set<string>();
+  const trends = [...currentTrends, ...entries.flatMap(e => e.trends || [])].filter(trend => {
+    const key = trend.headline.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const results = entries.flatMap(e => [
+    ...(e.result ? [{ key: `${e.id}:result`, result: e.result, platform: e.platform }] : []),
+    ...(e.variants || []).map((result, i) => ({ key: `${e.id}:variant-${i}`, result, platform: e.platform })),
+  ]);
+
+  return [
+    ...trends.map((trend, i): TrayItem => ({ key: `trend-${i}`, source: { kind: 'trend', trend } })),
+    ...results.map(({ key, result, platform }): TrayItem => ({ key, source: { kind: 'result', result, platform } })),
+  ];
+};
+
+export const createCalendarEntry = (source: CalendarSource, date: string, time: string, platform: Platform): CalendarEntry => {
+  const base = { id: crypto.randomUUID(), date, time, platform, notes: '', createdAt: Date.now() };
+  if (source.kind === 'trend') {
+    return {
+      ...base,
+      source: 'trend',
+      title: source.trend.headline,
+      body: source.trend.contentIdea,
+      cta: '',
+      hashtags: [],
+      trend: source.trend,
+    };
+  }
+  const { strategy, seo } = source.result;
+  return {
+    ...base,
+    platform: source.platform,
+    source: 'result',
+    title: strategy.headline,
+    body: strategy.caption,
+    cta: strategy.cta,
+    hashtags: [...seo.hashtags.broad, ...seo.hashtags.niche, ...seo.hashtags.specific],
+    result: source.result,
+  };
+};
+
+export const sortCalendarEntries = (entries: CalendarEntry[]) =>
+  [...entries].sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+
+export const listCalendarEntries = async (): Promise<CalendarEntry[]> =>
+  sortCalendarEntries(await getAll<CalendarEntry>(STORES.CALENDAR));
+
+export const saveCalendarEntry = (entry: CalendarEntry) => put(STORES.CALENDAR, entry);
+
+export const deleteCalendarEntry = (id: string) => remove(STORES.CALENDAR, id);
+
+// The cadence is a per-niche suggestion, so it lives with the other settings in localStorage
+const CADENCE_KEY = 'posting_cadence';
+
+export const loadPostingCadence = (): { niche: string; cadence: PostingCadence[] } | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CADENCE_KEY) || 'null');
+    return stored && Array.isArray(stored.cadence) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const savePostingCadence = (niche: string, cadence: PostingCadence[]) => {
+  localStorage.setItem(CADENCE_KEY, JSON.stringify({ niche, cadence }));
+};
+
+const describeEntry = (entry: CalendarEntry) => [
+  entry.body,
+  entry.cta && `CTA: ${entry.cta}`,
+  entry.hashtags.length > 0 && entry.hashtags.join(' '),
+  entry.notes && `Notes: ${entry.notes}`,
+].filter(Boolean).join('\n\n');
+
+// RFC 5545 text escaping and 75-octet line folding
+const escapeIcsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of Array.from(line)) {
+    // Continuation lines start with a space, which counts toward their 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsLocalTime = (date: string, time: string) => `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+const icsUtcStamp = (ms: number) => new Date(ms).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const POST_DURATION_MINUTES = 30;
+
+// Floating local times (no TZID): the post lands at the same wall-clock time wherever it's imported
+export const entriesToIcs = (entries: CalendarEntry[]): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SocialSEO AI//Content Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    ...sortCalendarEntries(entries).flatMap(entry => [
+      'BEGIN:VEVENT',
+      `UID:${entry.id}@socialseo-ai`,
+      `DTSTAMP:${icsUtcStamp(Date.now())}`,
+      `DTSTART:${icsLocalTime(entry.date, entry.time)}`,
+      `DURATION:PT${POST_DURATION_MINUTES}M`,
+      `SUMMARY:${escapeIcsText(`[${entry.platform}] ${entry.title}`)}`,
+      `DESCRIPTION:${escapeIcsText(describeEntry(entry))}`,
+      `CATEGORIES:${escapeIcsText(entry.platform)}`,
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+export const CSV_COLUMNS = ['Date', 'Time', 'Platform', 'Title', 'Caption', 'CTA', 'Hashtags', 'Notes', 'Source'];
+
+export const entriesToCsv = (entries: CalendarEntry[]): string =>
+  toCsv([
+    CSV_COLUMNS,
+    ...sortCalendarEntries(entries).map(e => [e.date, e.time, e.platform, e.title, e.body, e.cta, e.hashtags.join(' '), e.notes, e.source]),
+  ]);
@@ -0,0 +1,8 @@
+// RFC 4180 CSV: cells with quotes, commas or line breaks are quoted; rows end in CRLF
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
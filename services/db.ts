@@ -0,0 +1,63 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+// Bump DB_VERSION and add to STORES when a feature needs a new object store.
+
+const DB_NAME = 'socialseo-ai';
+const DB_VERSION = 4;
+
+export const STORES = {
+  HISTORY: 'history',
+  CALENDAR: 'calendar',
+  WATCHLISTS: 'watchlists',
+  COMPETITORS: 'competitors',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const getOne = async <T>(store: StoreName, id: string): Promise<T | undefined> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(id));
+};
+
+export const put = async <T>(store: StoreName, value: T): Promise<void> => {
+  const db = await openDb();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const remove = async (store: StoreName, id: string): Promise<void> => {
+  const db = await openDb();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(id));
+};
@@ -0,0 +1,124 @@
+// Typed failures surfaced by the service layer. Each carries the original error as
+// `cause` (for logs) and the recovery actions the UI should offer.
+
+export type AnalysisErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'invalid-response'
+  | 'upload-failed'
+  | 'timeout'
+  | 'cancelled'
+  | 'invalid-input'
+  | 'network'
+  | 'unknown';
+
+export type RecoveryAction = 'retry' | 'switch-key' | 'smaller-file';
+
+export abstract class AnalysisError extends Error {
+  abstract readonly kind: AnalysisErrorKind;
+  abstract readonly recovery: RecoveryAction[];
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+  }
+}
+
+export class AuthError extends AnalysisError {
+  readonly kind = 'auth';
+  readonly recovery: RecoveryAction[] = ['switch-key'];
+}
+
+export class QuotaError extends AnalysisError {
+  readonly kind = 'quota';
+  readonly recovery: RecoveryAction[] = ['retry', 'switch-key'];
+}
+
+export class SafetyBlockedError extends AnalysisError {
+  readonly kind = 'safety';
+  readonly recovery: RecoveryAction[] = [];
+}
+
+export class InvalidResponseError extends AnalysisError {
+  readonly kind = 'invalid-response';
+  readonly recovery: RecoveryAction[] = ['retry'];
+}
+
+export class UploadFailedError extends AnalysisError {
+  readonly kind = 'upload-failed';
+  readonly recovery: RecoveryAction[] = ['smaller-file', 'retry'];
+}
+
+export class TimeoutError extends AnalysisError {
+  readonly kind = 'timeout';
+  readonly recovery: RecoveryAction[] = ['retry', 'smaller-file'];
+}
+
+export class CancelledError extends AnalysisError {
+  readonly kind = 'cancelled';
+  readonly recovery: RecoveryAction[] = [];
+}
+
+// Something the user has to fill in or change first; the message says what
+export class InvalidInputError extends AnalysisError {
+  readonly kind = 'invalid-input';
+  readonly recovery: RecoveryAction[] = [];
+}
+
+// Connection problems and server errors
+export class NetworkError extends AnalysisError {
+  readonly kind = 'network';
+  readonly recovery: RecoveryAction[] = ['retry'];
+}
+
+// Anything we can't classify; keeps the original message rather than guessing a cause
+export class UnexpectedError extends AnalysisError {
+  readonly kind = 'unknown';
+  readonly recovery: RecoveryAction[] = ['retry'];
+}
+
+export const RECOVERY_LABELS: Record<RecoveryAction, string> = {
+  retry: 'Retry',
+  'switch-key': 'Switch API Key',
+  'smaller-file': 'Choose a Smaller File',
+};
+
+const statusOf = (error: any): number | undefined =>
+  typeof error?.status === 'number' ? error.status : undefined;
+
+// Map anything thrown by a provider, the SDK or JSON parsing onto the taxonomy
+export const toAnalysisError = (error: any): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+
+  const message: string = error?.message || '';
+  const status = statusOf(error);
+
+  if (error?.name === 'AbortError') {
+    return new CancelledError("Cancelled.", error);
+  }
+  if (status === 401 || status === 403 || /api key/i.test(message)) {
+    return new AuthError("Your API key was rejected. Check that it is valid and has access to the Gemini API, or switch to another key.", error);
+  }
+  if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) {
+    return new QuotaError("You've hit the Gemini quota or rate limit. Wait a minute and retry, or switch to a key with more quota.", error);
+  }
+  if (status === 413 || message.includes('413') || message.includes('too large')) {
+    return new UploadFailedError("The file is too large for the current connection. Please try a smaller file.", error);
+  }
+  if (message.includes('timeout') || message.includes('timed out')) {
+    return new TimeoutError("Request timed out. Try again, or use a smaller or shorter file.", error);
+  }
+  if (error instanceof SyntaxError) {
+    return new InvalidResponseError("The AI returned a response that couldn't be read. Retrying usually fixes this.", error);
+  }
+  if (status !== undefined && status >= 500) {
+    return new NetworkError("The AI service is temporarily unavailable. Please retry in a moment.", error);
+  }
+  if (/failed to fetch|fetch failed|network/i.test(message)) {
+    return new NetworkError("Connection failed. Please check your internet connection and retry.", error);
+  }
+  return new UnexpectedError(message || "Something went wrong. Please retry.", error);
+};
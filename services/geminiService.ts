@@ -1,277 +1,861 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, AppMode, Platform, TrendItem } from "../types";
-import { SYSTEM_INSTRUCTION, MODE_PROMPTS, TREND_HUNTER_INSTRUCTION, BRAND_GUARD_INSTRUCTION } from "../constants";
-
-const MODEL_NAME = 'gemini-2.5-flash';
-
-// Helper to convert small files to Base64 (InlineData)
-const fileToPart = (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      const base64String = result.includes(',') ? result.split(',')[1] : result;
-      resolve({
-        inlineData: {
-          data: base64String,
-          mimeType: file.type,
-        },
-      });
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+import { Type } from "@google/genai";
+import { AnalysisResult, AppMode, ConfigState, CrossPostPackage, HookAnalysis, HookType, LLMSettings, Platform, PostingCadence, TrendItem } from "../types";
+import { SYSTEM_INSTRUCTION, MODE_PROMPTS, TREND_HUNTER_INSTRUCTION, BRAND_GUARD_INSTRUCTION, VARIANT_INSTRUCTION, TREND_CONTEXT_INSTRUCTION, BEAT_THIS_INSTRUCTION, MEDIA_PREPROCESSING_INSTRUCTION } from "../constants";
+import { createProvider, DEFAULT_LLM_SETTINGS, LLMPart, LLMProvider, LLMRequest, LLMResponse, PROVIDERS } from "./providers";
+import { reportRetry, RunOptions, scaleProgress } from "./progress";
+import { withRetry } from "./retry";
+import { createRequestBudget, RequestBudget } from "./requestBudget";
+import { throwIfAborted, withTimeout } from "./cancellation";
+import { AnalysisError, InvalidInputError, InvalidResponseError, TimeoutError, toAnalysisError } from "./errors";
+import { previewAnalysisResult, validateAnalysisResult, validateBeatThisResult, validateBriefResult, validateCadence, validateCrossPostPackage, validateHookAnalysis, validateSpyResult, validateTranscript, validateTrends, Validation } from "./resultValidation";
+import { parsePartialJson } from "./partialJson";
+import { attachTrendSources } from "./trendGrounding";
+import { attachAssetNames, hookDistribution } from "./competitorReport";
+import { ensureThread } from "./twitterThread";
+import { describeFieldRegeneration, EditableField, pickField } from "./resultEdits";
+import { OpeningSample } from "./mediaPreprocessing";
+
+const cleanJson = (text: string) => {
+  let clean = text.trim();
+  // Remove markdown code blocks if present
+  if (clean.startsWith('```json')) {
+    clean = clean.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (clean.startsWith('```')) {
+    clean = clean.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+  return clean;
 };
 
-// Helper to upload large files via File API
-const uploadLargeFile = async (ai: GoogleGenAI, file: File): Promise<{ fileData: { fileUri: string; mimeType: string } }> => {
-  try {
-    const uploadResult = await ai.files.upload({
-      file: file,
-      config: { 
-        displayName: file.name,
-        mimeType: file.type 
-      }
-    });
+// Typed error for the UI. Real failures are logged with their cause; cancellations aren't.
+const reportError = (context: string, error: any): AnalysisError => {
+  const failure = toAnalysisError(error);
+  if (failure.kind !== 'cancelled') console.error(`${context}:`, error);
+  return failure;
+};
 
-    let fileInfo = await ai.files.get({ name: uploadResult.name });
-    
-    // Poll until active
-    let attempts = 0;
-    while (fileInfo.state === 'PROCESSING' && attempts < 30) {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      fileInfo = await ai.files.get({ name: uploadResult.name });
-      attempts++;
+// Response schema shared by every request that returns an AnalysisResult
+const ANALYSIS_RESULT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    visualAudit: {
+      type: Type.OBJECT,
+      properties: {
+        summary: { type: Type.STRING },
+        hookIdentified: { type: Type.STRING },
+        psychologyCheck: { type: Type.STRING },
+      },
+      required: ['summary', 'hookIdentified', 'psychologyCheck']
+    },
+    strategy: {
+      type: Type.OBJECT,
+      properties: {
+        headline: { type: Type.STRING },
+        caption: { type: Type.STRING },
+        cta: { type: Type.STRING },
+        thread: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              index: { type: Type.NUMBER },
+              text: { type: Type.STRING },
+              mediaSuggestion: { type: Type.STRING },
+            },
+            required: ['index', 'text']
+          }
+        },
+      },
+      required: ['headline', 'caption', 'cta']
+    },
+    seo: {
+      type: Type.OBJECT,
+      properties: {
+        hiddenKeywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+        hashtags: {
+          type: Type.OBJECT,
+          properties: {
+            broad: { type: Type.ARRAY, items: { type: Type.STRING } },
+            niche: { type: Type.ARRAY, items: { type: Type.STRING } },
+            specific: { type: Type.ARRAY, items: { type: Type.STRING } },
+          }
+        }
+      }
+    },
+    virality: {
+      type: Type.OBJECT,
+      properties: {
+        score: { type: Type.NUMBER },
+        gapAnalysis: { type: Type.STRING },
+        trendDetected: { type: Type.STRING },
+        vibe: { type: Type.STRING },
+      },
+      required: ['score', 'gapAnalysis']
+    },
+    competitorInsights: { 
+      type: Type.OBJECT,
+      properties: {
+        visualTheme: { type: Type.STRING },
+        ctaStrategy: { type: Type.STRING },
+        formula: { type: Type.STRING },
+        assets: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              fileIndex: { type: Type.NUMBER },
+              hookType: { type: Type.STRING },
+              pacing: { type: Type.STRING },
+              dominantColors: { type: Type.ARRAY, items: { type: Type.STRING } },
+              cta: { type: Type.STRING },
+              onScreenText: { type: Type.STRING },
+              format: { type: Type.STRING },
+            },
+            required: ['fileIndex', 'hookType']
+          }
+        },
+        recurringPhrases: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              phrase: { type: Type.STRING },
+              count: { type: Type.NUMBER },
+            },
+            required: ['phrase', 'count']
+          }
+        },
+      }
+    },
+    beatThis: {
+      type: Type.OBJECT,
+      properties: {
+        borrowed: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              element: { type: Type.STRING },
+              fromCompetitor: { type: Type.STRING },
+              inThisPost: { type: Type.STRING },
+            },
+            required: ['element', 'inThisPost']
+          }
+        },
+        differentiators: { type: Type.ARRAY, items: { type: Type.STRING } },
+      }
+    },
+    shotList: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.NUMBER },
+          duration: { type: Type.STRING },
+          visual: { type: Type.STRING },
+          onScreenText: { type: Type.STRING },
+          audio: { type: Type.STRING },
+        },
+        required: ['index', 'visual']
+      }
     }
+  },
+  required: ['visualAudit', 'strategy', 'seo', 'virality']
+};
+
+const TRANSCRIPT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    transcript: { type: Type.STRING }
+  },
+  required: ['transcript']
+};
 
-    if (fileInfo.state === 'FAILED') {
-      throw new Error("File processing failed on Gemini server.");
+const HOOK_ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    moments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          time: { type: Type.NUMBER },
+          textOverlay: { type: Type.STRING },
+          motion: { type: Type.STRING },
+          speech: { type: Type.STRING },
+          note: { type: Type.STRING },
+        },
+        required: ['time', 'textOverlay', 'motion', 'speech', 'note']
+      }
+    },
+    firstFrameText: { type: Type.STRING },
+    speechStart: { type: Type.NUMBER, nullable: true },
+    hookType: { type: Type.STRING, enum: Object.values(HookType) },
+    dropOffRisk: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+    dropOffReason: { type: Type.STRING },
+    edits: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          time: { type: Type.NUMBER },
+          edit: { type: Type.STRING },
+        },
+        required: ['time', 'edit']
+      }
     }
+  },
+  required: ['moments', 'firstFrameText', 'hookType', 'dropOffRisk', 'dropOffReason', 'edits']
+};
 
-    return {
-      fileData: {
-        fileUri: fileInfo.uri,
-        mimeType: fileInfo.mimeType
+const POSTING_CADENCE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    cadence: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          platform: { type: Type.STRING },
+          postsPerWeek: { type: Type.NUMBER },
+          bestDays: { type: Type.ARRAY, items: { type: Type.STRING } },
+          bestTimes: { type: Type.ARRAY, items: { type: Type.STRING } },
+          rationale: { type: Type.STRING },
+        },
+        required: ['platform', 'postsPerWeek', 'bestDays', 'bestTimes']
       }
-    };
+    }
+  },
+  required: ['cadence']
+};
+
+// `mediaNotes` describes uploads reduced in the browser (keyframe sheets, transcripts)
+type AnalyzeConfig = Partial<ConfigState> & { mediaNotes?: string[] };
+
+const targetingOf = (config: AnalyzeConfig) => [
+  config.geography ? `Target Geography: ${config.geography}` : '',
+  config.targetAudience ? `Target Audience: ${config.targetAudience}` : '',
+  config.targetLanguage ? `Target Language: ${config.targetLanguage}` : '',
+  config.demographics ? `Target Demographics: ${config.demographics}` : ''
+].filter(Boolean).join('\n');
+
+// Create with no media but a brief: the model plans the post and a shot list instead of auditing one
+const isBriefRun = (mode: AppMode, config: AnalyzeConfig, fileCount: number) =>
+  mode === AppMode.GENERATION && fileCount === 0 && !!config.brief?.topic.trim();
+
+const currentMonth = () => new Date().toLocaleString('default', { month: 'long', year: 'numeric' });
+
+// Builds the text prompt for a run. Trend Hunter ignores targeting & Brand Guard.
+const buildPrompt = (mode: AppMode, platform: Platform, config: AnalyzeConfig, fileCount: number): string => {
+  const currentDate = currentMonth();
+
+  const targeting = targetingOf(config);
+
+  // Trend Hunter Mode Logic
+  if (mode === AppMode.TREND_HUNTER) {
+    if (!config.niche) throw new InvalidInputError("Niche is required for Trend Hunter.");
+    return MODE_PROMPTS.TREND_HUNTER(config.niche, currentDate, config.trendPlatform);
+  }
+
+  // Standard Modes
+  let promptText = "";
+
+  // Inject Brand Guidelines if provided
+  if (config.brandGuidelines) {
+    promptText += BRAND_GUARD_INSTRUCTION(config.brandGuidelines) + "\n\n";
+  }
+
+  // Trend picked in Trend Hunter; Spy and Cross-Post describe existing content, so they skip it
+  if (config.activeTrend && (mode === AppMode.GENERATION || mode === AppMode.REFINE)) {
+    promptText += TREND_CONTEXT_INSTRUCTION(config.activeTrend) + "\n\n";
+  }
+
+  promptText += "IMPORTANT: You MUST return a valid JSON object matching the AnalysisResult structure. Do not include markdown formatting.\n\n";
+
+  if (isBriefRun(mode, config, fileCount)) {
+    promptText += MODE_PROMPTS.BRIEF_GENERATION(platform, config.goal || 'Viral Growth', config.style || 'Authentic', targeting, config.brief!);
+  } else if (mode === AppMode.GENERATION) {
+    promptText += MODE_PROMPTS.GENERATION(platform, config.goal || 'Viral Growth', config.style || 'Authentic', targeting);
+  } else if (mode === AppMode.REFINE) {
+    promptText += MODE_PROMPTS.REFINE(config.originalText || '', config.keywords || '', targeting);
+  } else if (mode === AppMode.COMPETITOR_SPY) {
+    promptText += MODE_PROMPTS.COMPETITOR_SPY(fileCount, targeting);
+  } else if (mode === AppMode.CROSS_POST) {
+    promptText += MODE_PROMPTS.CROSS_POST(platform, config.goal || 'Viral Growth', config.style || 'Authentic', targeting);
+  }
+
+  if (config.mediaNotes?.length) {
+    promptText += MEDIA_PREPROCESSING_INSTRUCTION(config.mediaNotes);
+  }
+  return promptText;
+};
+
+// The model is asked to name the active trend in 'trendDetected'; make sure it does
+const withTrendContext = (result: AnalysisResult, config: AnalyzeConfig): AnalysisResult => {
+  const trend = config.activeTrend;
+  const detected = result.virality.trendDetected || '';
+  if (!trend || detected.toLowerCase().includes(trend.headline.toLowerCase())) return result;
+  return { ...result, virality: { ...result.virality, trendDetected: detected ? `${trend.headline}: ${detected}` : trend.headline } };
+};
+
+// Media is prepared (inlined or uploaded) once and can be reused across several prompts.
+// If one file fails or the run is cancelled, files already uploaded are released.
+const prepareMediaParts = async (provider: LLMProvider, files: File[], { signal, onProgress }: RunOptions = {}): Promise<LLMPart[]> => {
+  const parts: LLMPart[] = [];
+  try {
+    for (let i = 0; i < files.length; i++) {
+      throwIfAborted(signal);
+      parts.push(await provider.prepareFile(files[i], { signal, onProgress: scaleProgress(onProgress, i, files.length) }));
+    }
   } catch (error) {
-    console.error("File upload error:", error);
-    throw new Error("Failed to upload large file to Gemini. Please try a smaller file.");
+    await releaseMediaParts(provider, parts);
+    throw error;
   }
+  return parts;
 };
 
-const cleanJson = (text: string) => {
-  let clean = text.trim();
-  // Remove markdown code blocks if present
-  if (clean.startsWith('```json')) {
-    clean = clean.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-  } else if (clean.startsWith('```')) {
-    clean = clean.replace(/^```\s*/, '').replace(/\s*```$/, '');
+// Uploaded media only lives for one call. Cleanup failures are logged, never surfaced.
+const releaseMediaParts = async (provider: LLMProvider, parts: LLMPart[]) => {
+  await Promise.all(parts.map(part =>
+    provider.releaseFile(part).catch(err => console.error("File cleanup error:", err))
+  ));
+};
+
+// One request per item against shared media. The first failure aborts the siblings, and this
+// only settles once every branch has, so the caller never releases media still in use.
+const fanOut = async <T, R>(
+  items: T[],
+  signal: AbortSignal | undefined,
+  run: (item: T, index: number, signal: AbortSignal) => Promise<R>
+): Promise<R[]> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  else signal?.addEventListener('abort', onAbort, { once: true });
+
+  let firstError: unknown;
+  try {
+    const settled = await Promise.allSettled(items.map((item, index) =>
+      run(item, index, controller.signal).catch(error => {
+        if (firstError === undefined) firstError = error;
+        controller.abort();
+        throw error;
+      })
+    ));
+    if (firstError !== undefined) throw firstError;
+    return settled.map(s => (s as PromiseFulfilledResult<R>).value);
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
   }
-  return clean;
+};
+
+// Each model call is bounded by the user's cancel signal and a fixed timeout
+const GENERATION_TIMEOUT_MS = 60000;
+
+// One budget per provider, shared by every run in this tab
+const budgets = new Map<LLMProvider['id'], RequestBudget>();
+
+const budgetFor = (provider: LLMProvider): RequestBudget | undefined => {
+  const limit = PROVIDERS[provider.id].requestsPerMinute;
+  if (!limit) return undefined;
+  if (!budgets.has(provider.id)) budgets.set(provider.id, createRequestBudget(limit));
+  return budgets.get(provider.id);
+};
+
+// Streams a reply, handing the text received so far to `onText` after every chunk
+const generateStreamed = async (provider: LLMProvider, request: LLMRequest, signal: AbortSignal, onText: (text: string) => void): Promise<LLMResponse> => {
+  let text = '';
+  for await (const chunk of provider.generateStream(request, { signal })) {
+    text += chunk;
+    onText(text);
+  }
+  if (!text) throw new InvalidResponseError("The AI returned an empty response. Please retry.");
+  return { text };
+};
+
+// Model call with pacing, retries on transient failures and a per-attempt timeout.
+// With `onText` the reply is streamed; a retry starts the text over from scratch.
+const generate = async (
+  provider: LLMProvider,
+  request: LLMRequest,
+  { signal, onProgress, retryPolicy }: RunOptions = {},
+  onText?: (text: string) => void
+) => {
+  const budget = budgetFor(provider);
+  return withRetry(async () => {
+    await budget?.acquire(signal, waitMs => onProgress?.({
+      phase: 'generating',
+      message: `Pacing requests to stay within ${PROVIDERS[provider.id].requestsPerMinute}/min, starting in ${Math.ceil(waitMs / 1000)}s`,
+      waitMs,
+    }));
+
+    const timeout = withTimeout(signal, GENERATION_TIMEOUT_MS);
+    try {
+      return onText
+        ? await generateStreamed(provider, request, timeout.signal, onText)
+        : await provider.generate(request, { signal: timeout.signal });
+    } catch (error) {
+      if (timeout.timedOut()) {
+        throw new TimeoutError("Request timed out. The API took too long to respond. Try again, or use a smaller or shorter file.", error);
+      }
+      throw error;
+    } finally {
+      timeout.dispose();
+    }
+  }, { policy: retryPolicy, signal, onRetry: reportRetry(onProgress, 'generating', 'Generation') });
+};
+
+const CROSS_POST_PACKAGE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    headline: { type: Type.STRING },
+    body: { type: Type.STRING },
+    cta: { type: Type.STRING },
+    hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    thread: { type: Type.ARRAY, items: { type: Type.STRING } },
+    chapters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          timestamp: { type: Type.STRING },
+          title: { type: Type.STRING },
+        },
+        required: ['timestamp', 'title']
+      }
+    },
+    onScreenText: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['headline', 'body', 'cta', 'hashtags']
+};
+
+// Only JSON syntax errors become repairable; a throwing validator is a bug and propagates
+const parseReply = <T>(text: string, validate: (raw: unknown) => Validation<T>): Validation<T> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(cleanJson(text));
+  } catch (error: any) {
+    return { errors: [`Response is not valid JSON (${error.message}).`] };
+  }
+  return validate(raw);
+};
+
+// Validate a reply; if it fails, send one repair request quoting the errors before giving up
+const parseWithRepair = async <T>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  text: string,
+  validate: (raw: unknown) => Validation<T>,
+  options: RunOptions
+): Promise<T> => {
+  const first = parseReply(text, validate);
+  if (first.value !== undefined) return first.value;
+
+  console.warn("Invalid AI response, requesting repair:", first.errors);
+  options.onProgress?.({ phase: 'parsing', message: 'Response was malformed, asking the AI to repair it' });
+  const repaired = await generate(provider, {
+    ...request,
+    parts: [{ text: MODE_PROMPTS.REPAIR(first.errors, text) }],
+    useSearch: false
+  }, options);
+
+  const second = parseReply(repaired.text, validate);
+  if (second.value !== undefined) return second.value;
+  throw new InvalidResponseError(
+    "The AI returned a response in an unexpected format, even after a repair attempt. Please retry.",
+    second.errors
+  );
 };
 
 export const analyzeContent = async (
   files: File[],
   mode: AppMode,
   platform: Platform,
-  config: {
-    goal?: string;
-    style?: string;
-    keywords?: string;
-    originalText?: string;
-    geography?: string;
-    targetAudience?: string;
-    targetLanguage?: string;
-    demographics?: string;
-    brandGuidelines?: string;
-    niche?: string; // For Trend Hunter
-  },
-  apiKey: string
+  config: AnalyzeConfig,
+  apiKey: string,
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  options: RunOptions = {}
 ): Promise<AnalysisResult | TrendItem[]> => {
+  const { signal, onProgress } = options;
+  let provider: LLMProvider | undefined;
+  let mediaParts: LLMPart[] = [];
   try {
-    if (!apiKey) throw new Error("API Key is missing.");
+    provider = createProvider(llm.provider, apiKey);
 
-    const ai = new GoogleGenAI({ apiKey: apiKey });
+    // 1. Prepare Prompt based on Mode
+    const promptText = buildPrompt(mode, platform, config, files.length);
 
-    const currentDate = new Date().toLocaleString('default', { month: 'long', year: 'numeric' });
+    // 2. Prepare Multimedia Parts (not needed for Trend Hunter)
+    if (mode !== AppMode.TREND_HUNTER) {
+      mediaParts = await prepareMediaParts(provider, files, options);
+    }
 
-    // 1. Prepare Prompt based on Mode
-    const targeting = [
-      config.geography ? `Target Geography: ${config.geography}` : '',
-      config.targetAudience ? `Target Audience: ${config.targetAudience}` : '',
-      config.targetLanguage ? `Target Language: ${config.targetLanguage}` : '',
-      config.demographics ? `Target Demographics: ${config.demographics}` : ''
-    ].filter(Boolean).join('\n');
+    // 3. Configure Request
+    // LOGIC: If Trend Hunter mode, we need Google Search (and no responseSchema).
+    const useSearch = mode === AppMode.TREND_HUNTER;
+    let responseSchema: any;
 
-    let promptText = "";
+    if (!useSearch) {
+      // Standard Schema for Generation/Refine/Spy without search
+      responseSchema = ANALYSIS_RESULT_SCHEMA;
+    }
+
+    // 4. Call API (cancellable, with timeout)
+    onProgress?.({ phase: 'generating', message: useSearch ? 'Searching live trends' : 'Generating strategy' });
+    const request: LLMRequest = {
+      model: llm.model,
+      parts: [{ text: promptText }, ...mediaParts],
+      systemInstruction: useSearch ? TREND_HUNTER_INSTRUCTION(currentMonth(), config.trendPlatform) : SYSTEM_INSTRUCTION,
+      responseSchema,
+      useSearch,
+      mode,
+      platform: useSearch ? config.trendPlatform || platform : platform,
+      task: isBriefRun(mode, config, files.length) ? 'brief-generation' : undefined
+    };
+    // Trend Hunter replies are short and search-grounded, so only result modes stream a preview
+    const onPartialResult = mode === AppMode.TREND_HUNTER ? undefined : options.onPartialResult;
+    const response = await generate(provider, request, options, onPartialResult && (text => {
+      const partial = parsePartialJson(text);
+      if (partial !== undefined) onPartialResult(previewAnalysisResult(partial));
+    }));
 
-    // Trend Hunter Mode Logic
+    // 5. Validate & return based on Mode
+    onProgress?.({ phase: 'parsing', message: 'Parsing response' });
     if (mode === AppMode.TREND_HUNTER) {
-      if (!config.niche) throw new Error("Niche is required for Trend Hunter.");
-      promptText = MODE_PROMPTS.TREND_HUNTER(config.niche, currentDate);
+      const trends = await parseWithRepair(provider, request, response.text, validateTrends, options);
+      return attachTrendSources(trends, response.grounding);
     }
-    // Standard Modes
-    else {
-      // Inject Brand Guidelines if provided
-      if (config.brandGuidelines) {
-        promptText += BRAND_GUARD_INSTRUCTION(config.brandGuidelines) + "\n\n";
-      }
+    if (mode === AppMode.COMPETITOR_SPY) {
+      const report = await parseWithRepair(provider, request, response.text, raw => validateSpyResult(raw, files.length), options);
+      return attachAssetNames(report, files.map(f => f.name));
+    }
+    const validate = request.task === 'brief-generation' ? validateBriefResult : validateAnalysisResult;
+    const result = await parseWithRepair(provider, request, response.text, validate, options);
+    return ensureThread(mode === AppMode.REFINE || mode === AppMode.GENERATION ? withTrendContext(result, config) : result, platform);
+  } catch (error: any) {
+    throw reportError(`Analysis Error (${llm.provider})`, error);
+  } finally {
+    if (provider) await releaseMediaParts(provider, mediaParts);
+  }
+};
 
-      promptText += "IMPORTANT: You MUST return a valid JSON object matching the AnalysisResult structure. Do not include markdown formatting.\n\n";
+// Follow-up pass on an existing result: the model rewrites it according to `instructions`
+// without re-sending any media. Used by Brand Guard fixes and other targeted repairs.
+export const reviseAnalysis = async (
+  result: AnalysisResult,
+  instructions: string,
+  mode: AppMode,
+  platform: Platform,
+  brandGuidelines: string,
+  apiKey: string,
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  options: RunOptions = {}
+): Promise<AnalysisResult> => {
+  try {
+    const provider = createProvider(llm.provider, apiKey);
 
-      if (mode === AppMode.GENERATION) {
-        promptText += MODE_PROMPTS.GENERATION(platform, config.goal || 'Viral Growth', config.style || 'Authentic', targeting);
-      } else if (mode === AppMode.REFINE) {
-        promptText += MODE_PROMPTS.REFINE(config.originalText || '', config.keywords || '', targeting);
-      } else if (mode === AppMode.COMPETITOR_SPY) {
-        promptText += MODE_PROMPTS.COMPETITOR_SPY(files.length, targeting);
-      }
+    let promptText = "";
+    if (brandGuidelines) {
+      promptText += BRAND_GUARD_INSTRUCTION(brandGuidelines) + "\n\n";
     }
+    promptText += MODE_PROMPTS.REVISE(platform, JSON.stringify(result, null, 2), instructions);
 
-    // 2. Prepare Multimedia Parts
-    const parts: any[] = [{ text: promptText }];
-    
-    // Only process files if NOT in Trend Hunter mode
-    if (mode !== AppMode.TREND_HUNTER) {
-      const FILE_SIZE_THRESHOLD = 20 * 1024 * 1024; 
-      for (const file of files) {
-        if (file.size > FILE_SIZE_THRESHOLD) {
-          const part = await uploadLargeFile(ai, file);
-          parts.push(part);
-        } else {
-          const part = await fileToPart(file);
-          parts.push(part);
-        }
-      }
+    options.onProgress?.({ phase: 'generating', message: 'Revising result' });
+    const request: LLMRequest = {
+      model: llm.model,
+      parts: [{ text: promptText }],
+      systemInstruction: SYSTEM_INSTRUCTION,
+      responseSchema: ANALYSIS_RESULT_SCHEMA,
+      mode,
+      platform
+    };
+    const response = await generate(provider, request, options);
+
+    options.onProgress?.({ phase: 'parsing', message: 'Parsing response' });
+    const revised = await parseWithRepair(provider, request, response.text, validateAnalysisResult, options);
+    // Fixes target the copy; a storyboard, Spy report or beat-this notes the model left out still apply
+    if (result.shotList && !revised.shotList) revised.shotList = result.shotList;
+    if (result.beatThis && !revised.beatThis) revised.beatThis = result.beatThis;
+    if (result.competitorInsights?.assets && !revised.competitorInsights?.assets) {
+      const { assets, recurringPhrases } = result.competitorInsights;
+      revised.competitorInsights = { ...result.competitorInsights, ...revised.competitorInsights, assets, recurringPhrases };
     }
+    return mode === AppMode.COMPETITOR_SPY ? revised : ensureThread(revised, platform);
+  } catch (error: any) {
+    throw reportError(`Revision Error (${llm.provider})`, error);
+  }
+};
 
-    // 3. Configure Request
-    const generateConfig: any = {
+// Rewrite a single field using the current result as context; everything else is kept verbatim
+export const regenerateField = async (
+  result: AnalysisResult,
+  field: EditableField,
+  mode: AppMode,
+  platform: Platform,
+  brandGuidelines: string,
+  apiKey: string,
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  options: RunOptions = {}
+): Promise<AnalysisResult> => {
+  const revised = await reviseAnalysis(result, describeFieldRegeneration(field, result), mode, platform, brandGuidelines, apiKey, llm, options);
+  return pickField(result, revised, field);
+};
+
+// GENERATION with several distinct angles. Media is prepared once and shared by every
+// variant; each variant is forced onto a different hook from the library. From a brief,
+// each variant storyboards its own hook.
+export const generateVariants = async (
+  files: File[],
+  platform: Platform,
+  config: AnalyzeConfig,
+  hooks: HookType[],
+  apiKey: string,
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  options: RunOptions = {}
+): Promise<AnalysisResult[]> => {
+  const { signal, onProgress } = options;
+  let provider: LLMProvider | undefined;
+  let mediaParts: LLMPart[] = [];
+  try {
+    provider = createProvider(llm.provider, apiKey);
+    const basePrompt = buildPrompt(AppMode.GENERATION, platform, config, files.length);
+    const briefRun = isBriefRun(AppMode.GENERATION, config, files.length);
+    mediaParts = await prepareMediaParts(provider, files, options);
+
+    let done = 0;
+    onProgress?.({ phase: 'generating', message: `Generating ${hooks.length} variants`, fraction: 0 });
+    return await fanOut(hooks, signal, async (hook, index, branchSignal) => {
+      const branchOptions = { ...options, signal: branchSignal };
+      const request: LLMRequest = {
+        model: llm.model,
+        parts: [{ text: basePrompt + VARIANT_INSTRUCTION(hook, index + 1, hooks.length) }, ...mediaParts],
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseSchema: ANALYSIS_RESULT_SCHEMA,
+        mode: AppMode.GENERATION,
+        platform,
+        task: briefRun ? 'brief-generation' : undefined
+      };
+      const response = await generate(provider!, request, branchOptions);
+      const parsed = await parseWithRepair(provider!, request, response.text, briefRun ? validateBriefResult : validateAnalysisResult, branchOptions);
+      done++;
+      onProgress?.({ phase: 'generating', message: `Generated ${done} of ${hooks.length} variants`, fraction: done / hooks.length });
+      // The hook is the whole point of the variant, so trust the assignment over the model
+      parsed.visualAudit.hookIdentified = hook;
+      return ensureThread(withTrendContext(parsed, config), platform);
+    });
+  } catch (error: any) {
+    throw reportError(`Variant Generation Error (${llm.provider})`, error);
+  } finally {
+    if (provider) await releaseMediaParts(provider, mediaParts);
+  }
+};
+
+// What the model needs from a Spy run; competitor file names and the raw rows stay out
+const describeCompetitorReport = (competitor: AnalysisResult): string => {
+  const insights = competitor.competitorInsights!;
+  return JSON.stringify({
+    pattern: competitor.visualAudit.summary,
+    template: competitor.strategy.caption,
+    visualTheme: insights.visualTheme,
+    ctaStrategy: insights.ctaStrategy,
+    formula: insights.formula,
+    hookMix: insights.assets ? hookDistribution(insights.assets).map(h => `${h.hook}: ${h.count}`) : [competitor.visualAudit.hookIdentified],
+    recurringPhrases: (insights.recurringPhrases || []).map(p => p.phrase),
+  }, null, 2);
+};
+
+// Spy follow-up: a Create run on the user's own asset, modelled on the formula a Spy run
+// decoded. Targeting, Brand Guard and an active trend apply as in any Create run.
+export const beatCompetitor = async (
+  files: File[],
+  competitor: AnalysisResult,
+  platform: Platform,
+  config: AnalyzeConfig,
+  apiKey: string,
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  options: RunOptions = {}
+): Promise<AnalysisResult> => {
+  const { onProgress } = options;
+  let provider: LLMProvider | undefined;
+  let mediaParts: LLMPart[] = [];
+  try {
+    if (!competitor.competitorInsights) throw new InvalidInputError("This result has no decoded competitor formula.");
+    provider = createProvider(llm.provider, apiKey);
+    const promptText = buildPrompt(AppMode.GENERATION, platform, config, files.length) + BEAT_THIS_INSTRUCTION(describeCompetitorReport(competitor));
+    mediaParts = await prepareMediaParts(provider, files, options);
+
+    onProgress?.({ phase: 'generating', message: 'Writing your post to the competitor formula' });
+    const request: LLMRequest = {
+      model: llm.model,
+      parts: [{ text: promptText }, ...mediaParts],
       systemInstruction: SYSTEM_INSTRUCTION,
-      thinkingConfig: { thinkingBudget: 1024 }
+      responseSchema: ANALYSIS_RESULT_SCHEMA,
+      mode: AppMode.GENERATION,
+      platform,
+      task: 'beat-competitor'
     };
+    const response = await generate(provider, request, options);
 
-    // LOGIC: If Trend Hunter mode, we need Google Search.
-    // When Google Search is enabled, we cannot use responseSchema.
-    const useSearch = mode === AppMode.TREND_HUNTER;
+    onProgress?.({ phase: 'parsing', message: 'Parsing response' });
+    const result = await parseWithRepair(provider, request, response.text, validateBeatThisResult, options);
+    result.beatThis!.formula = competitor.competitorInsights.formula;
+    return ensureThread(withTrendContext(result, config), platform);
+  } catch (error: any) {
+    throw reportError(`Beat Competitor Error (${llm.provider})`, error);
+  } finally {
+    if (provider) await releaseMediaParts(provider, mediaParts);
+  }
+};
 
-    if (useSearch) {
-      generateConfig.tools = [{ googleSearch: {} }];
-      generateConfig.responseMimeType = "application/json";
-      // NO responseSchema allowed with search tools in current version
-    } else {
-      // Standard Schema for Generation/Refine/Spy without search
-      generateConfig.responseMimeType = "application/json";
-      generateConfig.responseSchema = {
-        type: Type.OBJECT,
-        properties: {
-          visualAudit: {
-            type: Type.OBJECT,
-            properties: {
-              summary: { type: Type.STRING },
-              hookIdentified: { type: Type.STRING },
-              psychologyCheck: { type: Type.STRING },
-            },
-            required: ['summary', 'hookIdentified', 'psychologyCheck']
-          },
-          strategy: {
-            type: Type.OBJECT,
-            properties: {
-              headline: { type: Type.STRING },
-              caption: { type: Type.STRING },
-              cta: { type: Type.STRING },
-            },
-            required: ['headline', 'caption', 'cta']
-          },
-          seo: {
-            type: Type.OBJECT,
-            properties: {
-              hiddenKeywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-              hashtags: {
-                type: Type.OBJECT,
-                properties: {
-                  broad: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  niche: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  specific: { type: Type.ARRAY, items: { type: Type.STRING } },
-                }
-              }
-            }
-          },
-          virality: {
-            type: Type.OBJECT,
-            properties: {
-              score: { type: Type.NUMBER },
-              gapAnalysis: { type: Type.STRING },
-              trendDetected: { type: Type.STRING },
-              vibe: { type: Type.STRING },
-            },
-            required: ['score', 'gapAnalysis']
-          },
-          competitorInsights: { 
-            type: Type.OBJECT,
-            properties: {
-              visualTheme: { type: Type.STRING },
-              ctaStrategy: { type: Type.STRING },
-              formula: { type: Type.STRING },
-            }
-          }
-        },
-        required: ['visualAudit', 'strategy', 'seo', 'virality']
+// Cross-Post: one asset, one package per platform. Media is prepared once and the
+// same parts are reused for every platform prompt.
+export const crossPostContent = async (
+  files: File[],
+  platforms: Platform[],
+  config: AnalyzeConfig,
+  apiKey: string,
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  options: RunOptions = {}
+): Promise<CrossPostPackage[]> => {
+  const { signal, onProgress } = options;
+  let provider: LLMProvider | undefined;
+  let mediaParts: LLMPart[] = [];
+  try {
+    provider = createProvider(llm.provider, apiKey);
+    mediaParts = await prepareMediaParts(provider, files, options);
+
+    let done = 0;
+    onProgress?.({ phase: 'generating', message: `Writing ${platforms.length} platform packages`, fraction: 0 });
+    return await fanOut(platforms, signal, async (platform, _index, branchSignal) => {
+      const branchOptions = { ...options, signal: branchSignal };
+      const request: LLMRequest = {
+        model: llm.model,
+        parts: [{ text: buildPrompt(AppMode.CROSS_POST, platform, config, files.length) }, ...mediaParts],
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseSchema: CROSS_POST_PACKAGE_SCHEMA,
+        mode: AppMode.CROSS_POST,
+        platform
       };
-    }
+      const response = await generate(provider!, request, branchOptions);
+      const pkg = await parseWithRepair(provider!, request, response.text, raw => validateCrossPostPackage(raw, platform), branchOptions);
+      done++;
+      onProgress?.({ phase: 'generating', message: `Finished ${platform} (${done} of ${platforms.length})`, fraction: done / platforms.length });
+      return pkg;
+    });
+  } catch (error: any) {
+    throw reportError(`Cross-Post Error (${llm.provider})`, error);
+  } finally {
+    if (provider) await releaseMediaParts(provider, mediaParts);
+  }
+};
 
-    // 5. Call API with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
+// Calendar helper: how often and when to post in `niche` on each platform
+export const suggestPostingCadence = async (
+  niche: string,
+  platforms: Platform[],
+  config: AnalyzeConfig,
+  apiKey: string,
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  options: RunOptions = {}
+): Promise<PostingCadence[]> => {
+  try {
+    if (!niche.trim()) throw new InvalidInputError("Niche is required to suggest a posting cadence.");
+    const provider = createProvider(llm.provider, apiKey);
 
-    try {
-      const response = await ai.models.generateContent({
-        model: MODEL_NAME,
-        contents: { parts },
-        config: generateConfig
-      });
+    options.onProgress?.({ phase: 'generating', message: 'Planning posting cadence' });
+    const request: LLMRequest = {
+      model: llm.model,
+      parts: [{ text: MODE_PROMPTS.POSTING_CADENCE(niche, platforms, targetingOf(config)) }],
+      systemInstruction: SYSTEM_INSTRUCTION,
+      responseSchema: POSTING_CADENCE_SCHEMA,
+      mode: AppMode.TREND_HUNTER,
+      platform: platforms[0],
+      task: 'posting-cadence'
+    };
+    const response = await generate(provider, request, options);
 
-      clearTimeout(timeoutId);
+    options.onProgress?.({ phase: 'parsing', message: 'Parsing response' });
+    return await parseWithRepair(provider, request, response.text, raw => validateCadence(raw, platforms), options);
+  } catch (error: any) {
+    throw reportError(`Cadence Error (${llm.provider})`, error);
+  }
+};
 
-      const resultText = response.text;
-      if (!resultText) throw new Error("No response from AI");
+// Keyframes-only runs: what's said in a video, from its extracted audio track
+export const transcribeAudio = async (
+  audio: File,
+  fileName: string,
+  mode: AppMode,
+  platform: Platform,
+  apiKey: string,
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  options: RunOptions = {}
+): Promise<string> => {
+  let provider: LLMProvider | undefined;
+  let mediaParts: LLMPart[] = [];
+  try {
+    provider = createProvider(llm.provider, apiKey);
+    // Runs inside preprocessing: the audio upload is reported there, not as its own phases
+    mediaParts = await prepareMediaParts(provider, [audio], { signal: options.signal });
+
+    const request: LLMRequest = {
+      model: llm.model,
+      parts: [...mediaParts, { text: MODE_PROMPTS.TRANSCRIPT(fileName) }],
+      systemInstruction: SYSTEM_INSTRUCTION,
+      responseSchema: TRANSCRIPT_SCHEMA,
+      mode,
+      platform,
+      task: 'transcript'
+    };
+    const response = await generate(provider, request, { signal: options.signal, retryPolicy: options.retryPolicy });
+    return await parseWithRepair(provider, request, response.text, validateTranscript, { signal: options.signal, retryPolicy: options.retryPolicy });
+  } catch (error: any) {
+    throw reportError(`Transcript Error (${llm.provider})`, error);
+  } finally {
+    if (provider) await releaseMediaParts(provider, mediaParts);
+  }
+};
 
-      const cleanText = cleanJson(resultText);
-      const parsed = JSON.parse(cleanText);
+// First-seconds breakdown of one video from its sampled opening frames (and audio).
+// Each frame is sent as its own image, preceded by its timestamp.
+export const analyzeHook = async (
+  sample: OpeningSample,
+  fileName: string,
+  platform: Platform,
+  config: AnalyzeConfig,
+  apiKey: string,
+  llm: LLMSettings = DEFAULT_LLM_SETTINGS,
+  options: RunOptions = {}
+): Promise<HookAnalysis> => {
+  let provider: LLMProvider | undefined;
+  let mediaParts: LLMPart[] = [];
+  try {
+    provider = createProvider(llm.provider, apiKey);
+    const files = sample.audio ? [...sample.frames, sample.audio] : sample.frames;
+    mediaParts = await prepareMediaParts(provider, files, options);
+    const frameParts = sample.times.flatMap((t, i): LLMPart[] => [{ text: `Frame at ${t}s:` }, mediaParts[i]]);
 
-      // 6. Return based on Mode
-      if (mode === AppMode.TREND_HUNTER) {
-        if (parsed.trends && Array.isArray(parsed.trends) && parsed.trends.length > 0) {
-          return parsed.trends as TrendItem[];
-        }
-        // Fallback: create synthetic trends from response if parsing fails
-        if (parsed.trend || parsed.contentIdea || parsed.headline) {
-          return [{
-            headline: parsed.headline || "Trend Detected",
-            whyItsHot: parsed.whyItsHot || "Currently trending in your niche",
-            contentIdea: parsed.contentIdea || "Create content around this trend"
-          }];
-        }
-        throw new Error("No valid trends found. Please try again with a different niche or check your internet connection.");
-      } else {
-        return parsed as AnalysisResult;
-      }
-    } catch (timeoutError: any) {
-      if (timeoutError.name === 'AbortError') {
-        throw new Error("Request timed out. The API took too long to respond. Please try again with a smaller file or simpler request.");
-      }
-      throw timeoutError;
-    }
+    options.onProgress?.({ phase: 'generating', message: 'Analyzing the opening seconds' });
+    const request: LLMRequest = {
+      model: llm.model,
+      parts: [
+        { text: MODE_PROMPTS.HOOK_ANALYSIS(platform, sample.times, !!sample.audio, targetingOf(config)) },
+        ...frameParts,
+        ...mediaParts.slice(sample.frames.length)
+      ],
+      systemInstruction: SYSTEM_INSTRUCTION,
+      responseSchema: HOOK_ANALYSIS_SCHEMA,
+      mode: AppMode.GENERATION,
+      platform,
+      task: 'hook-analysis'
+    };
+    const response = await generate(provider, request, options);
 
+    options.onProgress?.({ phase: 'parsing', message: 'Parsing response' });
+    const breakdown = await parseWithRepair(provider, request, response.text, raw => validateHookAnalysis(raw, sample.times), options);
+    return { ...breakdown, fileName, platform, frames: sample.previews };
   } catch (error: any) {
-    console.error("Gemini Analysis Error:", error);
-    if (error.message?.includes('413') || error.message?.includes('too large')) {
-      throw new Error("The file is too large for the current connection. Please try a smaller file.");
-    }
-    if (error.message?.includes('timeout') || error.message?.includes('timed out')) {
-      throw new Error("Request timed out. Please check your internet connection and try again.");
-    }
-    throw new Error("Connection Failed. Please check your API Key or Internet connection.");
+    throw reportError(`Hook Analysis Error (${llm.provider})`, error);
+  } finally {
+    if (provider) await releaseMediaParts(provider, mediaParts);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,107 @@
+import { AnalysisResult, AppMode, ConfigState, CrossPostPackage, FileInput, HistoryEntry, LLMSettings, Platform, TrendItem } from "../types";
+import { getAll, put, remove, STORES } from "./db";
+import { createThumbnail } from "./mediaThumbnails";
+import { bestVariantIndex } from "./variants";
+
+export interface HistoryFilters {
+  query: string;
+  mode: AppMode | 'ALL';
+  platform: Platform | 'ALL';
+  minScore: number;
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  mode: 'ALL',
+  platform: 'ALL',
+  minScore: 0,
+};
+
+export const recordHistoryEntry = async (run: {
+  mode: AppMode;
+  platform: Platform;
+  config: ConfigState;
+  files: FileInput[];
+  result?: AnalysisResult;
+  variants?: AnalysisResult[];
+  crossPost?: CrossPostPackage[];
+  trends?: TrendItem[];
+  llm: LLMSettings;
+}): Promise<HistoryEntry> => {
+  const files = await Promise.all(run.files.map(async f => ({
+    name: f.file.name,
+    type: f.type,
+    size: f.file.size,
+    thumbnail: await createThumbnail(f),
+  })));
+
+  const entry: HistoryEntry = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    mode: run.mode,
+    platform: run.platform,
+    config: run.config,
+    files,
+    result: run.result,
+    variants: run.variants,
+    crossPost: run.crossPost,
+    trends: run.trends,
+    llm: run.llm,
+    pinned: false,
+  };
+  await put(STORES.HISTORY, entry);
+  return entry;
+};
+
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await getAll<HistoryEntry>(STORES.HISTORY);
+  // Pinned first, then newest first
+  return entries.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt - a.createdAt);
+};
+
+export const updateHistoryEntry = (entry: HistoryEntry) => put(STORES.HISTORY, entry);
+
+export const deleteHistoryEntry = (id: string) => remove(STORES.HISTORY, id);
+
+// The result a run is listed and scored by; A/B runs use their best variant
+export const entryResult = (entry: HistoryEntry): AnalysisResult | undefined =>
+  entry.result ?? (entry.variants?.length ? entry.variants[bestVariantIndex(entry.variants)] : undefined);
+
+// Everything a user might remember about a run, lowercased for matching
+const searchableText = (entry: HistoryEntry): string => [
+  entry.mode,
+  entry.platform,
+  entry.config.goal,
+  entry.config.style,
+  entry.config.keywords,
+  entry.config.originalText,
+  entry.config.geography,
+  entry.config.targetAudience,
+  entry.config.targetLanguage,
+  entry.config.demographics,
+  entry.config.brandGuidelines,
+  entry.config.niche,
+  entry.config.brief?.topic,
+  entry.config.activeTrend?.headline,
+  ...entry.files.map(f => f.name),
+  entry.result && JSON.stringify({ strategy: entry.result.strategy, seo: entry.result.seo, visualAudit: entry.result.visualAudit }),
+  ...(entry.variants || []).map(v => JSON.stringify({ strategy: v.strategy, seo: v.seo })),
+  ...(entry.trends || []).map(t => `${t.headline} ${t.whyItsHot} ${t.contentIdea}`),
+  ...(entry.crossPost || []).map(p => `${p.platform} ${p.headline} ${p.body} ${p.hashtags.join(' ')}`),
+].filter(Boolean).join(' ').toLowerCase();
+
+export const filterHistoryEntries = (entries: HistoryEntry[], filters: HistoryFilters): HistoryEntry[] => {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter(entry => {
+    if (filters.mode !== 'ALL' && entry.mode !== filters.mode) return false;
+    if (filters.platform !== 'ALL') {
+      const platforms = entry.crossPost ? entry.crossPost.map(p => p.platform) : [entry.platform];
+      if (!platforms.includes(filters.platform)) return false;
+    }
+    // Trend runs have no score; only exclude them once a score filter is set
+    if (filters.minScore > 0 && (entryResult(entry)?.virality.score ?? 0) < filters.minScore) return false;
+    if (terms.length === 0) return true;
+    const text = searchableText(entry);
+    return terms.every(term => text.includes(term));
+  });
+};
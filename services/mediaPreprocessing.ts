@@ -0,0 +1,452 @@
+import { FileInput, MediaProcessing, VideoHandling } from "../types";
+import { RunOptions, scaleProgress } from "./progress";
+import { createAbortError, isAbortError, throwIfAborted } from "./cancellation";
+
+// In-browser media preprocessing: videos can be reduced to a single keyframe sheet (plus an
+// optional transcript) and oversized images are downscaled, so runs send less and time out less.
+// Every input still maps to exactly one file sent, in the same order.
+
+export const DEFAULT_MEDIA_PROCESSING: MediaProcessing = {
+  videoHandling: 'full',
+  keyframeCount: 8,
+  maxImageDimension: 1536,
+  transcribeAudio: true,
+};
+
+export const KEYFRAME_COUNTS = [4, 6, 8, 12, 16];
+export const IMAGE_DIMENSIONS = [768, 1024, 1536, 2048];
+
+export const VIDEO_HANDLING_LABELS: Record<VideoHandling, string> = {
+  full: 'Full video',
+  keyframes: 'Keyframes only',
+};
+
+// Browsers decode a soundtrack whole, in memory, before it can be trimmed, so only files
+// within both source limits are decoded. The result is sent as 16 kHz mono WAV.
+export interface AudioLimits {
+  maxSeconds: number; // Kept from the start
+  maxSourceBytes: number;
+  maxSourceSeconds: number;
+}
+
+const TRANSCRIPT_AUDIO: AudioLimits = {
+  maxSeconds: 10 * 60,
+  maxSourceBytes: 200 * 1024 * 1024,
+  maxSourceSeconds: 20 * 60,
+};
+const TRANSCRIPT_SAMPLE_RATE = 16000;
+
+const JPEG_QUALITY = 0.85;
+const VIDEO_EVENT_TIMEOUT_MS = 15000; // Per metadata load or seek; a stalled decoder falls back to the full video
+const LABEL_HEIGHT_RATIO = 0.09;
+
+// Rough figures behind the size/time estimates shown before a run
+const UPLOAD_BYTES_PER_SECOND = 2 * 1024 * 1024;
+const INLINE_LIMIT_BYTES = 20 * 1024 * 1024; // Above this the Gemini provider goes through the Files API
+const SERVER_PROCESSING_SECONDS_PER_MB = 0.05;
+const SERVER_PROCESSING_BASE_SECONDS = 5;
+const SHEET_BYTES_PER_PIXEL = 0.12;
+const SEEK_SECONDS_PER_FRAME = 0.3;
+const TRANSCRIPT_SECONDS = 8; // The extra model call
+
+export interface MediaEstimate {
+  bytes: number;
+  seconds: number;
+}
+
+export interface PreprocessedMedia {
+  files: File[]; // One per input, in input order
+  notes: string[]; // What was reduced, for the prompt
+}
+
+// Given an audio track, returns what was said (the caller owns the model call)
+export type Transcriber = (audio: File, source: File) => Promise<string>;
+
+// "0:07.5": keyframe labels need sub-second precision near the start
+export const formatTimestamp = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest < 10 ? '0' : ''}${rest.toFixed(1)}`;
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024 ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+    : bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const formatSeconds = (seconds: number) =>
+  seconds < 60 ? `${Math.max(1, Math.round(seconds))}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+
+// Evenly spaced from the first frame; the very end is skipped since it's often black
+export const keyframeTimes = (duration: number, count: number): number[] => {
+  if (!Number.isFinite(duration) || duration <= 0 || count < 1) return [0];
+  const step = duration / count;
+  return Array.from({ length: count }, (_, i) => Math.round(i * step * 10) / 10)
+    .filter((t, i, all) => i === 0 || t > all[i - 1]);
+};
+
+const sheetGrid = (count: number) => {
+  const columns = Math.ceil(Math.sqrt(count));
+  return { columns, rows: Math.ceil(count / columns) };
+};
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '');
+
+export const estimateVideoCost = (
+  size: number,
+  duration: number | undefined,
+  settings: MediaProcessing
+): Record<VideoHandling, MediaEstimate> => {
+  const uploadSeconds = (bytes: number) =>
+    bytes / UPLOAD_BYTES_PER_SECOND
+    + (bytes > INLINE_LIMIT_BYTES ? SERVER_PROCESSING_BASE_SECONDS + (bytes / (1024 * 1024)) * SERVER_PROCESSING_SECONDS_PER_MB : 0);
+
+  const sheetBytes = settings.maxImageDimension ** 2 * 0.75 * SHEET_BYTES_PER_PIXEL;
+  const audioSeconds = Math.min(duration ?? TRANSCRIPT_AUDIO.maxSeconds, TRANSCRIPT_AUDIO.maxSeconds);
+  const transcribes = settings.transcribeAudio && decodesAudio(size, duration, TRANSCRIPT_AUDIO);
+  const audioBytes = transcribes ? audioSeconds * TRANSCRIPT_SAMPLE_RATE * 2 : 0;
+
+  return {
+    full: { bytes: size, seconds: uploadSeconds(size) },
+    keyframes: {
+      bytes: sheetBytes + audioBytes,
+      seconds: settings.keyframeCount * SEEK_SECONDS_PER_FRAME + uploadSeconds(sheetBytes)
+        + (transcribes ? uploadSeconds(audioBytes) + TRANSCRIPT_SECONDS : 0),
+    },
+  };
+};
+
+// Settles on `event`, a media error, the timeout or an abort, whichever comes first
+const videoEvent = (video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked', failure: string, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onDone);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onDone = () => finish();
+    const onError = () => finish(new Error(failure));
+    const onAbort = () => finish(createAbortError());
+    const timer = setTimeout(() => finish(new Error(`${failure} (timed out)`)), VIDEO_EVENT_TIMEOUT_MS);
+    video.addEventListener(event, onDone);
+    video.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const releaseVideo = (video: HTMLVideoElement) => {
+  video.removeAttribute('src');
+  video.load();
+};
+
+const loadVideo = async (src: string, signal?: AbortSignal): Promise<HTMLVideoElement> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.playsInline = true;
+  const loaded = videoEvent(video, 'loadedmetadata', "The browser can't decode this video.", signal);
+  video.src = src;
+  try {
+    await loaded;
+  } catch (error) {
+    releaseVideo(video);
+    throw error;
+  }
+  return video;
+};
+
+const seekTo = (video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<void> => {
+  const seeked = videoEvent(video, 'seeked', `Seeking to ${formatTimestamp(time)} failed.`, signal);
+  video.currentTime = time;
+  return seeked;
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string, type: string): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob
+      ? resolve(new File([blob], name, { type }))
+      : reject(new Error(`Couldn't encode ${name}.`)), type, JPEG_QUALITY);
+  });
+
+export const readVideoDuration = async (src: string, signal?: AbortSignal): Promise<number | undefined> => {
+  try {
+    const video = await loadVideo(src, signal);
+    const duration = video.duration;
+    releaseVideo(video);
+    return Number.isFinite(duration) ? duration : undefined;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return undefined;
+  }
+};
+
+// One canvas per frame at `times`, each within `maxDimension` on its longest edge
+const captureFrames = async (
+  input: FileInput,
+  times: number[],
+  maxDimension: number,
+  { signal, onProgress }: RunOptions = {}
+): Promise<HTMLCanvasElement[]> => {
+  const video = await loadVideo(input.preview, signal);
+  const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+  const frames: HTMLCanvasElement[] = [];
+  try {
+    for (let i = 0; i < times.length; i++) {
+      throwIfAborted(signal);
+      onProgress?.({ phase: 'preprocessing', message: `Extracting frames from ${input.file.name}`, fraction: i / times.length });
+      await seekTo(video, Math.min(times[i], video.duration || times[i]), signal);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+      canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Canvas is not available in this browser.");
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push(canvas);
+    }
+  } finally {
+    releaseVideo(video);
+  }
+  return frames;
+};
+
+// Frames at `times`, drawn as one JPEG grid with a timestamp on each tile.
+// The whole sheet is kept within `maxDimension` on its longest edge.
+export const extractKeyframeSheet = async (
+  input: FileInput,
+  times: number[],
+  maxDimension: number,
+  options: RunOptions = {}
+): Promise<File> => {
+  const { columns, rows } = sheetGrid(times.length);
+  const tiles = await captureFrames(input, times, maxDimension / Math.max(columns, rows), options);
+  const tileWidth = tiles[0].width;
+  const tileHeight = tiles[0].height;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = tileWidth * columns;
+  canvas.height = tileHeight * rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const labelHeight = Math.max(12, Math.round(tileHeight * LABEL_HEIGHT_RATIO));
+  ctx.font = `bold ${Math.round(labelHeight * 0.75)}px sans-serif`;
+  ctx.textBaseline = 'middle';
+  tiles.forEach((tile, i) => {
+    const x = (i % columns) * tileWidth;
+    const y = Math.floor(i / columns) * tileHeight;
+    ctx.drawImage(tile, x, y);
+
+    const label = formatTimestamp(times[i]);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(x, y + tileHeight - labelHeight, ctx.measureText(label).width + labelHeight * 0.6, labelHeight);
+    ctx.fillStyle = '#fff';
+    ctx.fillText(label, x + labelHeight * 0.3, y + tileHeight - labelHeight / 2);
+  });
+
+  return canvasToFile(canvas, `${baseName(input.file.name)}.keyframes.jpg`, 'image/jpeg');
+};
+
+// Returns the original when it's already small enough or can't be redrawn (GIF, SVG)
+export const downsampleImage = (input: FileInput, maxDimension: number): Promise<File> =>
+  new Promise(resolve => {
+    const { file } = input;
+    if (file.type === 'image/gif' || file.type === 'image/svg+xml') return resolve(file);
+    const img = new Image();
+    img.onload = async () => {
+      const scale = maxDimension / Math.max(img.naturalWidth, img.naturalHeight);
+      if (scale >= 1) return resolve(file);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.naturalWidth * scale);
+      canvas.height = Math.round(img.naturalHeight * scale);
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      // PNG keeps transparency; everything else is recompressed as JPEG
+      const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+      try {
+        const resized = await canvasToFile(canvas, type === 'image/png' ? file.name : `${baseName(file.name)}.jpg`, type);
+        resolve(resized.size < file.size ? resized : file);
+      } catch {
+        resolve(file);
+      }
+    };
+    img.onerror = () => resolve(file);
+    img.src = input.preview;
+  });
+
+// 16-bit PCM mono WAV
+export const encodeWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) =>
+    Array.from(text).forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => {
+    const s = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  });
+  return buffer;
+};
+
+// An unknown duration is allowed; the byte limit still applies
+export const decodesAudio = (size: number, duration: number | undefined, limits: AudioLimits) =>
+  size <= limits.maxSourceBytes && !(duration !== undefined && duration > limits.maxSourceSeconds);
+
+// The soundtrack's first `limits.maxSeconds`, resampled for speech. Undefined when there's no
+// decodable audio or the source is over the limits. The decode itself can't be interrupted,
+// so a cancel takes effect as soon as it returns.
+export const extractAudio = async (
+  file: File,
+  limits: AudioLimits,
+  { duration, signal }: { duration?: number; signal?: AbortSignal } = {}
+): Promise<File | undefined> => {
+  if (!decodesAudio(file.size, duration, limits)) return undefined;
+  throwIfAborted(signal);
+  const data = await file.arrayBuffer();
+  throwIfAborted(signal);
+
+  // Decoding at the speech rate keeps the in-memory PCM a third of the 48 kHz default
+  const context = new AudioContext({ sampleRate: TRANSCRIPT_SAMPLE_RATE });
+  let decoded: AudioBuffer | undefined;
+  try {
+    decoded = await context.decodeAudioData(data);
+  } catch {
+    // No audio track, or a codec the browser can't decode
+  } finally {
+    context.close();
+  }
+  throwIfAborted(signal);
+  if (!decoded) return undefined;
+
+  const seconds = Math.min(decoded.duration, limits.maxSeconds);
+  const offline = new OfflineAudioContext(1, Math.ceil(seconds * TRANSCRIPT_SAMPLE_RATE), TRANSCRIPT_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start(0, 0, seconds);
+  const rendered = await offline.startRendering();
+  return new File([encodeWav(rendered.getChannelData(0), TRANSCRIPT_SAMPLE_RATE)], `${baseName(file.name)}.wav`, { type: 'audio/wav' });
+};
+
+const describeSheet = (input: FileInput, times: number[], duration: number | undefined) =>
+  `"${input.file.name}"${duration ? ` (${formatSeconds(duration)} long)` : ''} was sent as a keyframe sheet of ${times.length} frames at ${times.map(formatTimestamp).join(', ')}.`;
+
+const transcriptNote = async (
+  input: FileInput,
+  duration: number | undefined,
+  transcribe: Transcriber,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    const audio = await extractAudio(input.file, TRANSCRIPT_AUDIO, { duration, signal });
+    if (!audio) return `"${input.file.name}": no transcript (no decodable audio, or the file is too large or long to decode in the browser).`;
+    const transcript = (await transcribe(audio, input.file)).trim();
+    return transcript ? `Transcript of "${input.file.name}":\n${transcript}` : `"${input.file.name}" has no speech.`;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn("Transcript failed:", error);
+    return `"${input.file.name}": no transcript (transcription failed). Judge the audio from the visuals only.`;
+  }
+};
+
+// Applies `settings` to every input. A video the browser can't decode is sent in full.
+export const preprocessMedia = async (
+  inputs: FileInput[],
+  settings: MediaProcessing,
+  transcribe: Transcriber,
+  { signal, onProgress }: RunOptions = {}
+): Promise<PreprocessedMedia> => {
+  const files: File[] = [];
+  const notes: string[] = [];
+
+  for (let i = 0; i < inputs.length; i++) {
+    throwIfAborted(signal);
+    const input = inputs[i];
+    const report = scaleProgress(onProgress, i, inputs.length);
+
+    if (input.type === 'image') {
+      report?.({ phase: 'preprocessing', message: `Downscaling ${input.file.name}`, fraction: 0 });
+      files.push(await downsampleImage(input, settings.maxImageDimension));
+    } else if (input.type === 'video' && settings.videoHandling === 'keyframes') {
+      try {
+        const duration = await readVideoDuration(input.preview, signal);
+        const times = keyframeTimes(duration ?? 0, settings.keyframeCount);
+        files.push(await extractKeyframeSheet(input, times, settings.maxImageDimension, { signal, onProgress: report }));
+        notes.push(describeSheet(input, times, duration));
+        if (settings.transcribeAudio) {
+          report?.({ phase: 'preprocessing', message: `Transcribing ${input.file.name}`, fraction: 0.9 });
+          notes.push(await transcriptNote(input, duration, transcribe, signal));
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn("Keyframe extraction failed, sending the full video:", error);
+        files.push(input.file);
+      }
+    } else {
+      files.push(input.file);
+    }
+    report?.({ phase: 'preprocessing', message: `Prepared ${input.file.name}`, fraction: 1 });
+  }
+
+  return { files, notes };
+};
+
+// Hook check: the opening seconds, sampled densely as separate frames plus their audio
+
+export const HOOK_WINDOW_SECONDS = 3;
+const HOOK_FRAME_INTERVAL = 0.5;
+const HOOK_FRAME_DIMENSION = 768;
+// The whole track is decoded for a 3-second sample, so only short, small clips get audio
+const HOOK_AUDIO: AudioLimits = {
+  maxSeconds: HOOK_WINDOW_SECONDS,
+  maxSourceBytes: 50 * 1024 * 1024,
+  maxSourceSeconds: 3 * 60,
+};
+
+export interface OpeningSample {
+  times: number[];
+  frames: File[]; // Sent to the model
+  previews: string[]; // The same frames as data URLs, for the frame strip
+  audio?: File; // Undefined when the soundtrack can't be decoded or the clip is over HOOK_AUDIO
+}
+
+// 0, 0.5 … 3s, cut short for shorter videos
+export const hookFrameTimes = (duration: number): number[] =>
+  Array.from({ length: HOOK_WINDOW_SECONDS / HOOK_FRAME_INTERVAL + 1 }, (_, i) => i * HOOK_FRAME_INTERVAL)
+    .filter(t => t === 0 || !(duration > 0) || t < duration);
+
+export const sampleOpening = async (input: FileInput, options: RunOptions = {}): Promise<OpeningSample> => {
+  const duration = await readVideoDuration(input.preview, options.signal);
+  const times = hookFrameTimes(duration ?? 0);
+  const canvases = await captureFrames(input, times, HOOK_FRAME_DIMENSION, options);
+  const frames = await Promise.all(canvases.map((canvas, i) =>
+    canvasToFile(canvas, `${baseName(input.file.name)}.${times[i].toFixed(1)}s.jpg`, 'image/jpeg')));
+
+  let audio: File | undefined;
+  throwIfAborted(options.signal);
+  options.onProgress?.({ phase: 'preprocessing', message: `Reading the opening audio of ${input.file.name}`, fraction: 1 });
+  try {
+    audio = await extractAudio(input.file, HOOK_AUDIO, { duration, signal: options.signal });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn("Opening audio extraction failed:", error);
+  }
+
+  return { times, frames, previews: canvases.map(canvas => canvas.toDataURL('image/jpeg', 0.7)), audio };
+};
@@ -0,0 +1,56 @@
+import { FileInput } from "../types";
+
+const THUMBNAIL_SIZE = 160;
+const THUMBNAIL_TIMEOUT_MS = 10000;
+
+// Scale a drawable into a small JPEG data URL that is cheap to persist
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number): string => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+const imageThumbnail = (src: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(drawThumbnail(img, img.naturalWidth, img.naturalHeight));
+    img.onerror = reject;
+    img.src = src;
+  });
+
+// A stalled decode gives up without a thumbnail rather than holding up the history save
+const videoThumbnail = (src: string): Promise<string | undefined> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      video.onloadeddata = video.onseeked = video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+      settle();
+    };
+    const timer = setTimeout(() => finish(() => resolve(undefined)), THUMBNAIL_TIMEOUT_MS);
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => { video.currentTime = 0; };
+    video.onseeked = () => {
+      const thumbnail = drawThumbnail(video, video.videoWidth, video.videoHeight);
+      finish(() => resolve(thumbnail));
+    };
+    video.onerror = (error) => finish(() => reject(error));
+    video.src = src;
+  });
+
+// Returns undefined for documents or when the browser can't decode the media
+export const createThumbnail = async (input: FileInput): Promise<string | undefined> => {
+  try {
+    if (input.type === 'image') return await imageThumbnail(input.preview);
+    if (input.type === 'video') return await videoThumbnail(input.preview);
+  } catch (error) {
+    console.warn("Thumbnail generation failed:", error);
+  }
+  return undefined;
+};
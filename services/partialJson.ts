@@ -0,0 +1,82 @@
+// Best-effort parse of a JSON document that is still streaming in.
+// The prefix is cut back to the last complete value and every open array/object is
+// closed; a string value that is still being written is kept (and closed) so text
+// fields grow as they arrive. Returns undefined until an object or array has started.
+
+interface Checkpoint {
+  end: number; // Index of the last character to keep
+  closers: string; // Brackets needed to close everything open at that point
+}
+
+const closersOf = (stack: string[]) => [...stack].reverse().join('');
+
+export const parsePartialJson = (text: string): unknown => {
+  const begin = text.search(/[{[]/);
+  if (begin < 0) return undefined;
+  const src = text.slice(begin);
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringIsKey = false;
+  let prev = ''; // Last significant character outside strings
+  let prevIndex = -1;
+  let checkpoint: Checkpoint | null = null;
+  const mark = (end: number) => { checkpoint = { end, closers: closersOf(stack) }; };
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') {
+        inString = false;
+        if (!stringIsKey) mark(i);
+        prev = c;
+        prevIndex = i;
+      }
+      continue;
+    }
+
+    if (/\s/.test(c)) continue;
+
+    if (c === '"') {
+      inString = true;
+      stringIsKey = stack[stack.length - 1] === '}' && (prev === '{' || prev === ',');
+    } else if (c === '{' || c === '[') {
+      stack.push(c === '{' ? '}' : ']');
+      mark(i);
+    } else if (c === '}' || c === ']') {
+      stack.pop();
+      mark(i);
+      if (stack.length === 0) break; // Ignore anything after the document (e.g. a closing ``` fence)
+    } else if (c === ',' && !'{[,:"}]'.includes(prev)) {
+      // A number or literal just ended
+      mark(prevIndex);
+    }
+
+    prev = c;
+    prevIndex = i;
+  }
+
+  // A value string still being written: keep what we have of it
+  if (inString && !stringIsKey) {
+    let partial = src;
+    if (escaped) partial = partial.slice(0, -1);
+    partial = partial.replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+    try {
+      return JSON.parse(partial + '"' + closersOf(stack));
+    } catch {
+      // Fall back to the last checkpoint
+    }
+  }
+
+  const last = checkpoint as Checkpoint | null;
+  if (!last) return undefined;
+  try {
+    return JSON.parse(src.slice(0, last.end + 1) + last.closers);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,139 @@
+import { AnalysisResult, Platform } from "../types";
+import { tweetsOf } from "./twitterThread";
+
+// Per-platform publishing limits. Hard limits reject or cut the post (errors);
+// recommended limits hurt reach or get truncated behind "...more" (warnings).
+export interface PlatformLimits {
+  captionMax: number;
+  headlineMax?: number; // Hard cap where the headline is a real title field (YouTube)
+  headlineRecommended: number; // Overlay text / title that reads at a glance
+  hashtagMax?: number;
+  hashtagRecommended?: number;
+  tweetMax?: number; // Per tweet, when the caption is a thread
+  firstLineTruncation?: number; // Characters visible before "...more"
+  headlineLabel: string;
+}
+
+export const PLATFORM_LIMITS: Record<Platform, PlatformLimits> = {
+  [Platform.INSTAGRAM]: {
+    captionMax: 2200,
+    headlineRecommended: 60,
+    hashtagMax: 30,
+    hashtagRecommended: 15,
+    firstLineTruncation: 125,
+    headlineLabel: 'Overlay text',
+  },
+  [Platform.TIKTOK]: {
+    captionMax: 4000,
+    headlineRecommended: 60,
+    hashtagRecommended: 6,
+    firstLineTruncation: 100,
+    headlineLabel: 'Overlay text',
+  },
+  [Platform.YOUTUBE]: {
+    captionMax: 5000,
+    headlineMax: 100,
+    headlineRecommended: 50, // Shorts titles
+    hashtagMax: 15, // Beyond this YouTube ignores every hashtag on the video
+    hashtagRecommended: 5,
+    firstLineTruncation: 157,
+    headlineLabel: 'Title',
+  },
+  [Platform.LINKEDIN]: {
+    captionMax: 3000,
+    headlineRecommended: 80,
+    hashtagRecommended: 5,
+    firstLineTruncation: 210,
+    headlineLabel: 'Opening line',
+  },
+  [Platform.TWITTER]: {
+    captionMax: 25 * 280, // Practical cap for a 25-tweet thread
+    headlineRecommended: 80,
+    hashtagRecommended: 2,
+    tweetMax: 280,
+    headlineLabel: 'Hook',
+  },
+  [Platform.FACEBOOK]: {
+    captionMax: 63206,
+    headlineRecommended: 80,
+    hashtagRecommended: 3,
+    firstLineTruncation: 477,
+    headlineLabel: 'Text-on-background',
+  },
+};
+
+export type PlatformField = 'headline' | 'caption' | 'cta' | 'hashtags' | 'tweet';
+
+export interface PlatformIssue {
+  field: PlatformField;
+  severity: 'error' | 'warning';
+  message: string;
+  index?: number; // Tweet number for thread issues
+  actual: number;
+  limit: number;
+}
+
+// Platforms count user-perceived characters, so count code points rather than UTF-16 units
+export const charCount = (text: string) => Array.from(text).length;
+
+export const countHashtags = (result: AnalysisResult) =>
+  result.seo.hashtags.broad.length + result.seo.hashtags.niche.length + result.seo.hashtags.specific.length;
+
+export const validatePlatformRules = (result: AnalysisResult, platform: Platform): PlatformIssue[] => {
+  const limits = PLATFORM_LIMITS[platform];
+  const issues: PlatformIssue[] = [];
+  const { headline, caption } = result.strategy;
+
+  const headlineLength = charCount(headline);
+  if (limits.headlineMax !== undefined && headlineLength > limits.headlineMax) {
+    issues.push({ field: 'headline', severity: 'error', message: `${limits.headlineLabel} exceeds ${limits.headlineMax} characters`, actual: headlineLength, limit: limits.headlineMax });
+  } else if (headlineLength > limits.headlineRecommended) {
+    issues.push({ field: 'headline', severity: 'warning', message: `${limits.headlineLabel} is longer than the recommended ${limits.headlineRecommended} characters`, actual: headlineLength, limit: limits.headlineRecommended });
+  }
+
+  const captionLength = charCount(caption);
+  if (captionLength > limits.captionMax) {
+    issues.push({ field: 'caption', severity: 'error', message: `Caption exceeds the ${limits.captionMax}-character limit`, actual: captionLength, limit: limits.captionMax });
+  }
+
+  if (limits.tweetMax !== undefined) {
+    tweetsOf(result).forEach((tweet, index) => {
+      const length = charCount(tweet);
+      if (length > limits.tweetMax!) {
+        issues.push({ field: 'tweet', severity: 'error', index, message: `Tweet ${index + 1} exceeds ${limits.tweetMax} characters`, actual: length, limit: limits.tweetMax! });
+      }
+    });
+  }
+
+  if (limits.firstLineTruncation !== undefined) {
+    const firstLine = caption.split('\n')[0] || '';
+    const length = charCount(firstLine);
+    if (length > limits.firstLineTruncation) {
+      issues.push({ field: 'caption', severity: 'warning', message: `First line is cut off after ${limits.firstLineTruncation} characters ("...more")`, actual: length, limit: limits.firstLineTruncation });
+    }
+  }
+
+  const hashtags = countHashtags(result);
+  if (limits.hashtagMax !== undefined && hashtags > limits.hashtagMax) {
+    issues.push({ field: 'hashtags', severity: 'error', message: `${platform} allows at most ${limits.hashtagMax} hashtags`, actual: hashtags, limit: limits.hashtagMax });
+  } else if (limits.hashtagRecommended !== undefined && hashtags > limits.hashtagRecommended) {
+    issues.push({ field: 'hashtags', severity: 'warning', message: `More than ${limits.hashtagRecommended} hashtags tends to reduce reach on ${platform}`, actual: hashtags, limit: limits.hashtagRecommended });
+  }
+
+  return issues;
+};
+
+// Instructions for the revision pass that repairs hard overflows
+export const describePlatformIssues = (issues: PlatformIssue[], platform: Platform): string =>
+  issues.map((issue, i) => {
+    switch (issue.field) {
+      case 'tweet':
+        return `${i + 1}. Tweet ${issue.index! + 1} in 'strategy.thread' is ${issue.actual} characters; shorten it to at most ${issue.limit}.`;
+      case 'hashtags':
+        return `${i + 1}. There are ${issue.actual} hashtags in total; keep only the ${issue.limit} strongest across broad/niche/specific.`;
+      case 'headline':
+        return `${i + 1}. 'strategy.headline' is ${issue.actual} characters; shorten it to at most ${issue.limit} for ${platform}.`;
+      default:
+        return `${i + 1}. 'strategy.${issue.field}' is ${issue.actual} characters; shorten it to at most ${issue.limit} without losing the hook or CTA.`;
+    }
+  }).join('\n');
@@ -0,0 +1,74 @@
+import { AnalysisResult } from "../types";
+import { describeRetryReason, RetryInfo, RetryPolicy } from "./retry";
+
+// Progress events emitted while a run moves through its phases.
+// Media phases are skipped for text-only runs (Refine without media, Trend Hunter).
+// 'preprocessing' is in-browser work (keyframes, downscaling) before anything is sent.
+export type ProgressPhase = 'preprocessing' | 'reading' | 'uploading' | 'processing' | 'generating' | 'parsing';
+
+export const PROGRESS_PHASES: ProgressPhase[] = ['preprocessing', 'reading', 'uploading', 'processing', 'generating', 'parsing'];
+
+export const PHASE_LABELS: Record<ProgressPhase, string> = {
+  preprocessing: 'Preprocessing',
+  reading: 'Reading files',
+  uploading: 'Uploading',
+  processing: 'Server processing',
+  generating: 'Generating',
+  parsing: 'Parsing',
+};
+
+export interface ProgressEvent {
+  phase: ProgressPhase;
+  message: string;
+  fraction?: number; // 0..1 within the phase, when it can be measured
+  // Set while the run is paused for a retry backoff or the request budget
+  waitMs?: number;
+  attempt?: number;
+  maxAttempts?: number;
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+// Per-call controls accepted by providers and the service functions
+export interface RunOptions {
+  signal?: AbortSignal;
+  onProgress?: ProgressListener;
+  retryPolicy?: RetryPolicy;
+  // Opt-in streaming: called with a best-effort preview as the reply arrives.
+  // The value returned by the call is the validated result and replaces the preview.
+  onPartialResult?: (preview: AnalysisResult) => void;
+}
+
+// Turn retry callbacks into progress events for `label` (e.g. "Upload of clip.mp4")
+export const reportRetry = (onProgress: ProgressListener | undefined, phase: ProgressPhase, label: string) =>
+  onProgress && ((info: RetryInfo) => onProgress({
+    phase,
+    message: `${label} ${describeRetryReason(info.error)}, retrying in ${Math.ceil(info.delayMs / 1000)}s (attempt ${info.attempt}/${info.maxAttempts})`,
+    waitMs: info.delayMs,
+    attempt: info.attempt,
+    maxAttempts: info.maxAttempts,
+  }));
+
+// Share of the overall bar each phase occupies
+const PHASE_RANGES: Record<ProgressPhase, [number, number]> = {
+  preprocessing: [0, 15],
+  reading: [15, 30],
+  uploading: [30, 48],
+  processing: [48, 55],
+  generating: [55, 92],
+  parsing: [92, 100],
+};
+
+export const progressPercent = (event: ProgressEvent): number => {
+  const [start, end] = PHASE_RANGES[event.phase];
+  const fraction = Math.min(Math.max(event.fraction ?? 0, 0), 1);
+  return start + (end - start) * fraction;
+};
+
+// Scale a listener to report one item of many (e.g. file 2 of 3) as a slice of the phase
+export const scaleProgress = (onProgress: ProgressListener | undefined, index: number, total: number): ProgressListener | undefined =>
+  onProgress && (event => onProgress({
+    ...event,
+    fraction: (index + (event.fraction ?? 0)) / total,
+    message: total > 1 ? `${event.message} (${index + 1}/${total})` : event.message,
+  }));
@@ -0,0 +1,209 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { LLMProviderId } from "../../types";
+import { LLMGrounding, LLMPart, LLMProvider, LLMRequest, LLMResponse } from "./types";
+import { reportRetry, RunOptions } from "../progress";
+import { withRetry } from "../retry";
+import { createAbortError, isAbortError, sleep, throwIfAborted } from "../cancellation";
+import { InvalidResponseError, SafetyBlockedError, TimeoutError, toAnalysisError, UploadFailedError } from "../errors";
+
+const FILE_SIZE_THRESHOLD = 20 * 1024 * 1024;
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLL_ATTEMPTS = 30;
+
+const BLOCKED_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Remote file names look like "files/abc123"; the URI ends with the same path
+const fileNameFromUri = (uri: string) => uri.match(/files\/[^/?]+/)?.[0];
+
+// Helper to convert small files to Base64 (InlineData)
+const fileToPart = (file: File, { signal, onProgress }: RunOptions = {}): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const reader = new FileReader();
+    const onAbort = () => reader.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    reader.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.({ phase: 'reading', message: `Reading ${file.name}`, fraction: e.loaded / e.total });
+    };
+    reader.onabort = () => reject(createAbortError());
+    reader.onloadend = () => {
+      signal?.removeEventListener('abort', onAbort);
+      if (reader.error || reader.readyState !== FileReader.DONE || reader.result === null) return;
+      const result = reader.result as string;
+      const base64String = result.includes(',') ? result.split(',')[1] : result;
+      resolve({
+        inlineData: {
+          data: base64String,
+          mimeType: file.type,
+        },
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    onProgress?.({ phase: 'reading', message: `Reading ${file.name}`, fraction: 0 });
+    reader.readAsDataURL(file);
+  });
+};
+
+// Helper to upload large files via File API.
+// If the run is cancelled after the upload landed, the remote file is deleted here
+// because the caller never receives a part to release.
+const uploadLargeFile = async (ai: GoogleGenAI, file: File, { signal, onProgress, retryPolicy }: RunOptions = {}): Promise<{ fileData: { fileUri: string; mimeType: string } }> => {
+  let remoteName: string | undefined;
+  try {
+    // The SDK doesn't report byte progress, so the phase is only marked as started/finished
+    onProgress?.({ phase: 'uploading', message: `Uploading ${file.name} (${formatSize(file.size)})`, fraction: 0 });
+    const uploadResult = await withRetry(() => ai.files.upload({
+      file: file,
+      config: {
+        displayName: file.name,
+        mimeType: file.type,
+        abortSignal: signal
+      }
+    }), { policy: retryPolicy, signal, onRetry: reportRetry(onProgress, 'uploading', `Upload of ${file.name}`) });
+    if (!uploadResult.name) throw new Error("Upload did not return a file name.");
+    const name = uploadResult.name;
+    remoteName = name;
+    onProgress?.({ phase: 'uploading', message: `Uploaded ${file.name}`, fraction: 1 });
+    throwIfAborted(signal);
+
+    // Each status check retries on its own, so one dropped poll doesn't fail the upload
+    const getFileInfo = () => withRetry(
+      () => ai.files.get({ name, config: { abortSignal: signal } }),
+      { policy: retryPolicy, signal, onRetry: reportRetry(onProgress, 'processing', `Status check for ${file.name}`) }
+    );
+    let fileInfo = await getFileInfo();
+
+    // Poll until active
+    let attempts = 0;
+    while (fileInfo.state === 'PROCESSING' && attempts < MAX_POLL_ATTEMPTS) {
+      onProgress?.({ phase: 'processing', message: `Gemini is processing ${file.name}`, fraction: attempts / MAX_POLL_ATTEMPTS });
+      await sleep(POLL_INTERVAL_MS, signal);
+      fileInfo = await getFileInfo();
+      attempts++;
+    }
+
+    if (fileInfo.state === 'PROCESSING') {
+      throw new TimeoutError(`Gemini is still processing ${file.name} after ${(MAX_POLL_ATTEMPTS * POLL_INTERVAL_MS) / 1000}s. Try again, or use a shorter clip.`);
+    }
+    if (fileInfo.state === 'FAILED' || !fileInfo.uri) {
+      throw new UploadFailedError(`Gemini couldn't process ${file.name}. Try re-exporting it or uploading a smaller file.`, fileInfo.error);
+    }
+    onProgress?.({ phase: 'processing', message: `${file.name} is ready`, fraction: 1 });
+
+    return {
+      fileData: {
+        fileUri: fileInfo.uri,
+        mimeType: fileInfo.mimeType || file.type
+      }
+    };
+  } catch (error) {
+    if (remoteName) {
+      ai.files.delete({ name: remoteName }).catch(err => console.error("File cleanup error:", err));
+    }
+    if (isAbortError(error) || signal?.aborted) throw createAbortError();
+    console.error("File upload error:", error);
+    // Key and quota problems aren't the file's fault; keep their own type
+    const failure = toAnalysisError(error);
+    if (['auth', 'quota', 'upload-failed', 'timeout'].includes(failure.kind)) throw failure;
+    throw new UploadFailedError(`Failed to upload ${file.name} to Gemini. Please try a smaller file.`, error);
+  }
+};
+
+const buildGenerateConfig = (request: LLMRequest, signal?: AbortSignal) => {
+  const generateConfig: any = {
+    systemInstruction: request.systemInstruction,
+    thinkingConfig: { thinkingBudget: 1024 },
+    responseMimeType: "application/json",
+    abortSignal: signal
+  };
+
+  // When Google Search is enabled, we cannot use responseSchema.
+  if (request.useSearch) {
+    generateConfig.tools = [{ googleSearch: {} }];
+  } else if (request.responseSchema) {
+    generateConfig.responseSchema = request.responseSchema;
+  }
+  return generateConfig;
+};
+
+// Blocked prompts come back without candidates; blocked answers stop with a safety reason
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyBlockedError(
+      `Gemini blocked this request (${blockReason || finishReason}). Try different media or wording.`,
+      response.promptFeedback
+    );
+  }
+};
+
+const groundingOf = (response: GenerateContentResponse): LLMGrounding | undefined => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  if (!metadata?.groundingChunks?.length) return undefined;
+  return {
+    // Keep chunk positions so support indices still line up
+    sources: metadata.groundingChunks.map(chunk => ({ uri: chunk.web?.uri || '', title: chunk.web?.title || chunk.web?.domain || '' })),
+    supports: (metadata.groundingSupports || []).map(support => ({
+      text: support.segment?.text || '',
+      sourceIndices: support.groundingChunkIndices || [],
+      confidence: support.confidenceScores?.length ? Math.max(...support.confidenceScores) : undefined,
+    })),
+    queries: metadata.webSearchQueries || [],
+  };
+};
+
+export const createGeminiProvider = (apiKey: string): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: apiKey });
+
+  return {
+    id: LLMProviderId.GEMINI,
+
+    prepareFile: async (file: File, options?: RunOptions): Promise<LLMPart> => {
+      if (file.size > FILE_SIZE_THRESHOLD) {
+        return uploadLargeFile(ai, file, options);
+      }
+      return fileToPart(file, options);
+    },
+
+    releaseFile: async (part: LLMPart): Promise<void> => {
+      if (!('fileData' in part)) return;
+      const name = fileNameFromUri(part.fileData.fileUri);
+      if (name) await ai.files.delete({ name });
+    },
+
+    generate: async (request: LLMRequest, options: RunOptions = {}): Promise<LLMResponse> => {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: { parts: request.parts },
+        config: buildGenerateConfig(request, options.signal)
+      });
+
+      assertNotBlocked(response);
+      const text = response.text;
+      if (!text) throw new InvalidResponseError("The AI returned an empty response. Please retry.");
+      return { text, grounding: groundingOf(response) };
+    },
+
+    generateStream: async function* (request: LLMRequest, options: RunOptions = {}): AsyncGenerator<string> {
+      const stream = await ai.models.generateContentStream({
+        model: request.model,
+        contents: { parts: request.parts },
+        config: buildGenerateConfig(request, options.signal)
+      });
+
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
@@ -0,0 +1,41 @@
+import { LLMProviderId, LLMSettings } from "../../types";
+import { LLMProvider, LLMProviderInfo } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { AuthError } from "../errors";
+
+export * from "./types";
+
+export const PROVIDERS: Record<LLMProviderId, LLMProviderInfo> = {
+  [LLMProviderId.GEMINI]: {
+    id: LLMProviderId.GEMINI,
+    label: 'Google Gemini',
+    models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    defaultModel: 'gemini-2.5-flash',
+    requiresApiKey: true,
+    requestsPerMinute: 10,
+  },
+  [LLMProviderId.MOCK]: {
+    id: LLMProviderId.MOCK,
+    label: 'Offline Mock',
+    models: ['mock-fixtures'],
+    defaultModel: 'mock-fixtures',
+    requiresApiKey: false,
+  },
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: LLMProviderId.GEMINI,
+  model: PROVIDERS[LLMProviderId.GEMINI].defaultModel,
+};
+
+export const createProvider = (id: LLMProviderId, apiKey: string): LLMProvider => {
+  switch (id) {
+    case LLMProviderId.MOCK:
+      return createMockProvider();
+    case LLMProviderId.GEMINI:
+    default:
+      if (!apiKey) throw new AuthError("API Key is missing.");
+      return createGeminiProvider(apiKey);
+  }
+};
@@ -0,0 +1,256 @@
+import { AnalysisResult, CompetitorAsset, CrossPostPackage, HookMoment, HookType, Platform, PostingCadence, TrendItem } from "../../types";
+import { LLMGrounding } from "./types";
+
+// Canned responses for the offline mock provider.
+// Keep these realistic: they are what demos and tests render.
+
+export const GENERATION_FIXTURE = (platform: Platform): AnalysisResult => ({
+  visualAudit: {
+    summary: "Close-up product shot with natural window light and a hand entering frame in the first second.",
+    hookIdentified: HookType.COMPELLING_VISUALS,
+    psychologyCheck: "Movement in the first frame triggers the orienting response; warm tones signal authenticity."
+  },
+  strategy: {
+    headline: "You've been doing this wrong",
+    caption: `Most people skip this one step. 👀\n\nHere's the 10-second fix that changed everything for us on ${platform}.\n\nSave this for later.`,
+    cta: "Comment 'FIX' and we'll send you the full guide"
+  },
+  seo: {
+    hiddenKeywords: ["morning routine", "quick fix", "beginner tips", "life hack"],
+    hashtags: {
+      broad: ["#lifehacks", "#tips"],
+      niche: ["#morningroutine", "#productivitytips"],
+      specific: ["#10secondfix", "#routinereset"]
+    }
+  },
+  virality: {
+    score: 82,
+    gapAnalysis: "Add on-screen text in the first frame to hold silent scrollers.",
+    trendDetected: "Fix-it-in-seconds edits",
+    vibe: "Authentic & Raw"
+  }
+});
+
+export const BRIEF_GENERATION_FIXTURE = (platform: Platform): AnalysisResult => ({
+  ...GENERATION_FIXTURE(platform),
+  visualAudit: {
+    summary: "Handheld, natural-light demo: problem shown in a messy before shot, fix in one continuous take, clean after shot.",
+    hookIdentified: HookType.PROBLEM_SOLUTION,
+    psychologyCheck: "Showing the familiar frustration first earns the 'that's me' moment before the fix lands."
+  },
+  shotList: [
+    { index: 1, duration: "0-3s", visual: "Tight close-up of the problem, hand slams into frame", onScreenText: "You've been doing this wrong", audio: "Sharp whoosh, then VO: \"Stop. Don't do it like that.\"" },
+    { index: 2, duration: "3-8s", visual: "Medium shot, face to camera, holding the product", onScreenText: "The 10-second fix", audio: "VO: \"Here's the one step everyone skips.\"" },
+    { index: 3, duration: "8-18s", visual: "Overhead, one continuous take of the fix, sped up 2x", onScreenText: "Step 1 → Step 2 → Done", audio: "Upbeat trending track, VO counts the steps" },
+    { index: 4, duration: "18-22s", visual: "Before/after split screen", onScreenText: "Before vs. after", audio: "Beat drop on the cut" },
+    { index: 5, duration: "22-25s", visual: "Face to camera, pointing down at the caption", onScreenText: "Comment 'FIX' for the guide", audio: "VO reads the CTA" }
+  ]
+});
+
+export const REFINE_FIXTURE = (platform: Platform): AnalysisResult => ({
+  ...GENERATION_FIXTURE(platform),
+  visualAudit: {
+    summary: "Text-only draft with a clear narrative and a buried keyword.",
+    hookIdentified: HookType.PROBLEM_SOLUTION,
+    psychologyCheck: "Pain point is named late; moving it to line one improves dwell time."
+  },
+  strategy: {
+    headline: "The routine that finally stuck",
+    caption: "I tried every morning routine out there. Only one stuck.\n\nThe secret? Stacking one tiny habit onto something I already do.\n\nHere's how to build yours.",
+    cta: "Follow for part 2"
+  }
+});
+
+export const BEAT_THIS_FIXTURE = (platform: Platform): AnalysisResult => ({
+  ...GENERATION_FIXTURE(platform),
+  visualAudit: {
+    summary: "Face-to-camera opener over your product shot, with a fast 3-step demo and a clean result frame.",
+    hookIdentified: HookType.BOLD_STATEMENTS,
+    psychologyCheck: "The contrarian opener stops the scroll; showing real results instead of claims earns the save."
+  },
+  strategy: {
+    headline: "Stop buying the expensive fix",
+    caption: `Stop paying for the "pro" version. 🛑\n\nWe tested both for 30 days. Here's what actually changed (receipts in the last slide).\n\nSave this before your next order.`,
+    cta: "Save this before your next order"
+  },
+  beatThis: {
+    formula: "",
+    borrowed: [
+      { element: "Contrarian opener", fromCompetitor: "Every post opens with a 'STOP doing this' claim on a face close-up", inThisPost: "Opens with 'Stop buying the expensive fix' over the product" },
+      { element: "Proof in 3 beats", fromCompetitor: "Three quick cuts between claim and payoff", inThisPost: "Three-step demo cut to the beat" },
+      { element: "Save-driven CTA", fromCompetitor: "Asks for saves in the last 2 seconds, never follows", inThisPost: "Closes on 'Save this before your next order'" }
+    ],
+    differentiators: [
+      "Backs the claim with a 30-day test instead of opinion",
+      "Product-first framing instead of a talking head",
+      "Warm neutral palette instead of the set's yellow captions"
+    ]
+  }
+});
+
+// Rows cycle through these so any upload size gets a plausible report
+const SPY_ASSET_ROWS: Omit<CompetitorAsset, 'fileIndex' | 'fileName'>[] = [
+  { hookType: HookType.BOLD_STATEMENTS, pacing: "Cut every 1.5s, no pauses", dominantColors: ["#FFD400", "#1A1A1A"], cta: "Save this before you forget", onScreenText: "STOP doing this", format: "Talking-head Reel, ~20s" },
+  { hookType: HookType.BOLD_STATEMENTS, pacing: "Cut every 2s, speed ramp on the reveal", dominantColors: ["#FFD400", "#F2F2F2", "#3B3B3B"], cta: "Save for later", onScreenText: "Nobody tells you this", format: "Talking-head Reel, ~30s" },
+  { hookType: HookType.PROBLEM_SOLUTION, pacing: "Slow open, fast 3-step montage", dominantColors: ["#FFD400", "#6B8F71"], cta: "Save this and try it tonight", onScreenText: "STOP doing this → do this instead", format: "Voiceover B-roll, ~15s" },
+  { hookType: HookType.AUTHORITY, pacing: "Single take with punch-in zooms", dominantColors: ["#1A1A1A", "#FFFFFF"], cta: "Save so you don't forget", onScreenText: "10 years in, here's the truth", format: "Talking-head Short, ~45s" },
+];
+
+export const COMPETITOR_SPY_FIXTURE = (platform: Platform, assetCount = 3): AnalysisResult => ({
+  ...GENERATION_FIXTURE(platform),
+  visualAudit: {
+    summary: "All inputs open on a face-to-camera close-up with bold yellow captions and a cut every 1.5 seconds.",
+    hookIdentified: HookType.BOLD_STATEMENTS,
+    psychologyCheck: "Contrarian openers create cognitive dissonance that viewers resolve by watching on."
+  },
+  strategy: {
+    headline: "Stop [common habit] right now",
+    caption: "Stop [common habit]. Here's why: [surprising reason].\n\nInstead, try [simple alternative] for [timeframe].\n\nResult: [specific outcome].",
+    cta: "Save this before you forget"
+  },
+  competitorInsights: {
+    visualTheme: "High-contrast yellow captions on muted backgrounds; talking head framed tight.",
+    ctaStrategy: "Save-driven CTAs in the last 2 seconds, never asking for follows.",
+    formula: "Contrarian claim → proof in 3 beats → save prompt",
+    assets: Array.from({ length: assetCount }, (_, i) => ({ ...SPY_ASSET_ROWS[i % SPY_ASSET_ROWS.length], fileIndex: i + 1, fileName: '' })),
+    recurringPhrases: [
+      { phrase: "Save this", count: Math.min(assetCount, 3) },
+      { phrase: "STOP doing this", count: Math.min(assetCount, 2) },
+    ]
+  }
+});
+
+// Fixture dates stay relative to today so freshness badges look the same in every demo
+const daysAgo = (days: number) => new Date(Date.now() - days * 86400000).toISOString().slice(0, 10);
+
+export const TREND_HUNTER_FIXTURE = (): TrendItem[] => [
+  {
+    headline: "The 'Quiet Upgrade' Challenge",
+    whyItsHot: "People are swapping loud before/afters for subtle everyday upgrades and the comments are eating it up.",
+    contentIdea: "Show three tiny upgrades you made this week, each in under 3 seconds, with a 'did you notice?' text overlay.",
+    firstSeen: daysAgo(4),
+    confidence: 'high',
+    platforms: [Platform.TIKTOK, Platform.INSTAGRAM]
+  },
+  {
+    headline: "Reply-With-A-Video Tutorials",
+    whyItsHot: "Creators answering real comments with quick demos feel personal and get pushed to the original commenter's network.",
+    contentIdea: "Pick the most-asked question in your comments and answer it with a 20-second screen-recorded demo.",
+    firstSeen: daysAgo(20),
+    confidence: 'medium',
+    platforms: [Platform.TIKTOK, Platform.YOUTUBE]
+  },
+  {
+    headline: "Myth vs. Fact Split Screens",
+    whyItsHot: "Split-screen myth busting is easy to skim and sparks debates in the comments.",
+    contentIdea: "Film a split screen: left side acts out the myth, right side shows the fact with a bold verdict stamp.",
+    firstSeen: daysAgo(90),
+    confidence: 'medium',
+    platforms: [Platform.INSTAGRAM, Platform.FACEBOOK]
+  }
+];
+
+// Search grounding for the trend fixture. The last trend is deliberately left
+// unsupported so the "ungrounded" flag shows up offline.
+export const TREND_HUNTER_GROUNDING: LLMGrounding = {
+  sources: [
+    { uri: "https://example.com/creator-trends/quiet-upgrades", title: "example.com" },
+    { uri: "https://example.org/social-report/reply-videos", title: "example.org" },
+    { uri: "https://example.net/weekly-trend-roundup", title: "example.net" }
+  ],
+  supports: [
+    { text: "People are swapping loud before/afters for subtle everyday upgrades", sourceIndices: [0, 2], confidence: 0.91 },
+    { text: "\"whyItsHot\": \"Creators answering real comments with quick demos feel personal", sourceIndices: [1], confidence: 0.78 }
+  ],
+  queries: ["trending creator formats this week"]
+};
+
+export const CROSS_POST_FIXTURE = (platform: Platform): CrossPostPackage => {
+  const base: CrossPostPackage = {
+    platform,
+    headline: "The 10-second fix nobody talks about",
+    body: "Most people skip this one step.\n\nHere's the 10-second fix that changed everything for us.",
+    cta: "Save this for later",
+    hashtags: ["#lifehacks", "#morningroutine", "#10secondfix"],
+  };
+
+  switch (platform) {
+    case Platform.TWITTER:
+      return {
+        ...base,
+        body: "Most people skip this one step. It costs them hours every week. 🧵",
+        thread: [
+          "Most people skip this one step. It costs them hours every week. 🧵",
+          "The step: prep tomorrow's first task before you close your laptop tonight.",
+          "Why it works: you remove the decision cost from your most fragile hour.",
+          "Try it for 5 days. Reply with what changed."
+        ],
+        hashtags: ["#productivity"],
+      };
+    case Platform.YOUTUBE:
+      return {
+        ...base,
+        headline: "The 10-Second Morning Fix",
+        chapters: [
+          { timestamp: "00:00", title: "The mistake" },
+          { timestamp: "00:45", title: "The 10-second fix" },
+          { timestamp: "02:10", title: "Results after a week" }
+        ],
+      };
+    case Platform.TIKTOK:
+    case Platform.INSTAGRAM:
+      return {
+        ...base,
+        onScreenText: ["You're doing this wrong", "Do THIS instead", "10 seconds. That's it.", "Save for tomorrow"],
+      };
+    case Platform.LINKEDIN:
+      return {
+        ...base,
+        headline: "I wasted 3 hours a week for 5 years.",
+        body: "I wasted 3 hours a week for 5 years.\n\nNot on meetings.\n\nOn deciding what to do first.\n\nHere's the 10-second habit that fixed it.",
+        cta: "What's your first-task ritual?",
+      };
+    default:
+      return base;
+  }
+};
+
+// Raw model shape (day names, not indices) so the mock exercises the same validation
+export const POSTING_CADENCE_FIXTURE = (platform: Platform) => {
+  const byPlatform: Record<Platform, Omit<PostingCadence, 'platform' | 'bestDays'> & { bestDays: string[] }> = {
+    [Platform.INSTAGRAM]: { postsPerWeek: 4, bestDays: ["Monday", "Wednesday", "Friday", "Sunday"], bestTimes: ["11:00", "19:00"], rationale: "Reels get a second push in the evening scroll; four a week keeps you in rotation without fatigue." },
+    [Platform.TIKTOK]: { postsPerWeek: 5, bestDays: ["Monday", "Tuesday", "Thursday", "Friday", "Saturday"], bestTimes: ["12:00", "20:00"], rationale: "The For You feed rewards volume; short daily-ish posts test hooks fastest." },
+    [Platform.YOUTUBE]: { postsPerWeek: 2, bestDays: ["Wednesday", "Saturday"], bestTimes: ["16:00"], rationale: "Publishing before the evening peak gives Shorts time to index." },
+    [Platform.LINKEDIN]: { postsPerWeek: 3, bestDays: ["Tuesday", "Wednesday", "Thursday"], bestTimes: ["08:30"], rationale: "Mid-week mornings catch professionals before meetings start." },
+    [Platform.TWITTER]: { postsPerWeek: 7, bestDays: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"], bestTimes: ["09:00", "17:30"], rationale: "Threads decay within hours, so a daily cadence keeps you in the conversation." },
+    [Platform.FACEBOOK]: { postsPerWeek: 3, bestDays: ["Tuesday", "Thursday", "Sunday"], bestTimes: ["13:00"], rationale: "Group shares peak around lunch; three posts a week keeps reach steady." },
+  };
+  return { platform, ...byPlatform[platform] };
+};
+
+export const TRANSCRIPT_FIXTURE = "[0:00] Stop scrolling if your mornings feel rushed.\n[0:03] This one step takes ten seconds.\n[0:07] Watch what happens when I skip it.\n[0:12] Save this and try it tomorrow.";
+
+const HOOK_MOMENTS: Omit<HookMoment, 'time'>[] = [
+  { textOverlay: "", motion: "Static wide shot of the counter", speech: "", note: "Nothing to read or hear yet: the first frame gives no reason to stay." },
+  { textOverlay: "", motion: "Hand reaches in from the right", speech: "So...", note: "Movement starts, but the filler word delays the point." },
+  { textOverlay: "Morning routine hack", motion: "Slow push-in on the mug", speech: "this one step", note: "The keyword overlay lands here; it should be on screen from the first frame." },
+  { textOverlay: "Morning routine hack", motion: "Slow push-in on the mug", speech: "takes ten seconds", note: "A concrete promise: the strongest moment of the opening." },
+  { textOverlay: "Morning routine hack", motion: "Cut to close-up", speech: "and changes everything.", note: "The cut re-engages attention right at the 2s mark." },
+  { textOverlay: "Morning routine hack", motion: "Close-up, hands working", speech: "", note: "Pause in speech; keep it under half a second." },
+  { textOverlay: "Step 1", motion: "Close-up, hands working", speech: "First,", note: "Payoff begins; viewers who got here usually stay." },
+];
+
+// Raw model shape: one moment per requested frame time
+export const HOOK_ANALYSIS_FIXTURE = (platform: Platform, times: number[]) => ({
+  moments: times.map((time, i) => ({ time, ...HOOK_MOMENTS[i % HOOK_MOMENTS.length] })),
+  firstFrameText: "",
+  speechStart: 0.5,
+  hookType: HookType.PROBLEM_SOLUTION,
+  dropOffRisk: "medium",
+  dropOffReason: `The first frame has no text or action, so ${platform} viewers get nothing to react to for half a second.`,
+  edits: [
+    { time: 0, edit: "Open on the close-up from 2.0s and put \"Morning routine hack\" on screen from the first frame." },
+    { time: 0.5, edit: "Cut the \"So...\" filler so the line starts with \"This one step takes ten seconds\"." },
+    { time: 2.5, edit: "Trim the silent beat after the promise to keep the pace through the 3s mark." },
+  ],
+});
@@ -0,0 +1,91 @@
+import { AnalysisResult, AppMode, HookType, LLMProviderId, Platform } from "../../types";
+import { LLMPart, LLMProvider, LLMRequest, LLMResponse } from "./types";
+import { RunOptions } from "../progress";
+import { sleep } from "../cancellation";
+import { BEAT_THIS_FIXTURE, BRIEF_GENERATION_FIXTURE, COMPETITOR_SPY_FIXTURE, CROSS_POST_FIXTURE, GENERATION_FIXTURE, HOOK_ANALYSIS_FIXTURE, POSTING_CADENCE_FIXTURE, REFINE_FIXTURE, TRANSCRIPT_FIXTURE, TREND_HUNTER_FIXTURE, TREND_HUNTER_GROUNDING } from "./mockFixtures";
+
+// Short fixed delay so loading states are visible during demos
+const MOCK_LATENCY_MS = 800;
+const MOCK_CHUNK_SIZE = 48;
+const MOCK_CHUNK_DELAY_MS = 30;
+
+const promptOf = (request: LLMRequest) =>
+  request.parts.map(p => ('text' in p ? p.text : '')).join('\n');
+
+// Stable small hash so "random-looking" fixture tweaks stay deterministic
+const hash = (text: string) => Array.from(text).reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+
+// Variant requests name a forced hook; reflect it so A/B comparisons show distinct output
+const applyForcedHook = (result: AnalysisResult, prompt: string): AnalysisResult => {
+  const hook = prompt.match(/FORCED HOOK: (.+)/)?.[1]?.trim() as HookType | undefined;
+  if (!hook) return result;
+  return {
+    ...result,
+    visualAudit: { ...result.visualAudit, hookIdentified: hook },
+    strategy: { ...result.strategy, headline: `${result.strategy.headline} (${hook})` },
+    virality: { ...result.virality, score: 60 + (hash(hook) % 40) },
+  };
+};
+
+// Same request in, same fixture out
+const fixtureFor = (request: LLMRequest): string => {
+  if (request.task === 'posting-cadence') {
+    const platforms = Object.values(Platform).filter(p => promptOf(request).includes(p));
+    return JSON.stringify({ cadence: platforms.map(POSTING_CADENCE_FIXTURE) });
+  }
+  if (request.task === 'beat-competitor') {
+    return JSON.stringify(BEAT_THIS_FIXTURE(request.platform));
+  }
+  if (request.task === 'hook-analysis') {
+    const times = Array.from(promptOf(request).matchAll(/Frame at ([\d.]+)s:/g), m => Number(m[1]));
+    return JSON.stringify(HOOK_ANALYSIS_FIXTURE(request.platform, times));
+  }
+  if (request.task === 'transcript') {
+    return JSON.stringify({ transcript: TRANSCRIPT_FIXTURE });
+  }
+  if (request.task === 'brief-generation') {
+    return JSON.stringify(applyForcedHook(BRIEF_GENERATION_FIXTURE(request.platform), promptOf(request)));
+  }
+  switch (request.mode) {
+    case AppMode.TREND_HUNTER:
+      return JSON.stringify({ trends: TREND_HUNTER_FIXTURE() });
+    case AppMode.REFINE:
+      return JSON.stringify(REFINE_FIXTURE(request.platform));
+    case AppMode.CROSS_POST:
+      return JSON.stringify(CROSS_POST_FIXTURE(request.platform));
+    case AppMode.COMPETITOR_SPY:
+      return JSON.stringify(COMPETITOR_SPY_FIXTURE(request.platform, Number(promptOf(request).match(/Analyzing (\d+) inputs/)?.[1]) || undefined));
+    default:
+      return JSON.stringify(applyForcedHook(GENERATION_FIXTURE(request.platform), promptOf(request)));
+  }
+};
+
+// Deterministic offline provider: same request in, same fixture out. No network.
+export const createMockProvider = (): LLMProvider => ({
+  id: LLMProviderId.MOCK,
+
+  prepareFile: async (file: File, { signal, onProgress }: RunOptions = {}): Promise<LLMPart> => {
+    onProgress?.({ phase: 'reading', message: `Reading ${file.name}`, fraction: 0 });
+    await sleep(MOCK_LATENCY_MS / 4, signal);
+    onProgress?.({ phase: 'reading', message: `Reading ${file.name}`, fraction: 1 });
+    return { text: `[Attached ${file.type || 'file'}: ${file.name}]` };
+  },
+
+  releaseFile: async () => {},
+
+  generate: async (request: LLMRequest, { signal }: RunOptions = {}): Promise<LLMResponse> => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const grounding = request.useSearch && request.mode === AppMode.TREND_HUNTER ? TREND_HUNTER_GROUNDING : undefined;
+    return { text: fixtureFor(request), grounding };
+  },
+
+  // Replays the fixture in small chunks so progressive rendering can be demoed offline
+  generateStream: async function* (request: LLMRequest, { signal }: RunOptions = {}): AsyncGenerator<string> {
+    await sleep(MOCK_LATENCY_MS / 2, signal);
+    const text = fixtureFor(request);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      await sleep(MOCK_CHUNK_DELAY_MS, signal);
+      yield text.slice(i, i + MOCK_CHUNK_SIZE);
+    }
+  }
+});
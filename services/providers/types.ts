@@ -0,0 +1,56 @@
+import { AppMode, LLMProviderId, Platform } from "../../types";
+import { RunOptions } from "../progress";
+
+// Content parts follow the Gemini wire shape; other providers translate as needed.
+export type LLMPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } }
+  | { fileData: { fileUri: string; mimeType: string } };
+
+// Requests that aren't a mode's main output; the mock provider checks this before `mode`
+export type LLMTask = 'posting-cadence' | 'brief-generation' | 'beat-competitor' | 'transcript' | 'hook-analysis';
+
+export interface LLMRequest {
+  model: string;
+  parts: LLMPart[];
+  systemInstruction: string;
+  responseSchema?: any;
+  useSearch?: boolean;
+  // Context about the run, used by the mock provider to pick a fixture
+  mode: AppMode;
+  platform: Platform;
+  task?: LLMTask;
+}
+
+// Search grounding: which parts of the reply are backed by which web pages
+export interface LLMGrounding {
+  sources: { uri: string; title: string }[];
+  supports: { text: string; sourceIndices: number[]; confidence?: number }[];
+  queries: string[];
+}
+
+export interface LLMResponse {
+  text: string;
+  grounding?: LLMGrounding; // Set when useSearch produced grounding metadata
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  // Turn a user file into a part the provider can consume (inline or uploaded)
+  prepareFile(file: File, options?: RunOptions): Promise<LLMPart>;
+  generate(request: LLMRequest, options?: RunOptions): Promise<LLMResponse>;
+  // Same request, yielding text chunks as they arrive (concatenated they form the reply)
+  generateStream(request: LLMRequest, options?: RunOptions): AsyncIterable<string>;
+  // Delete anything prepareFile stored remotely; a no-op for inline parts
+  releaseFile(part: LLMPart): Promise<void>;
+}
+
+export interface LLMProviderInfo {
+  id: LLMProviderId;
+  label: string;
+  models: string[];
+  defaultModel: string;
+  requiresApiKey: boolean;
+  // Client-side pacing for model calls; matches the free-tier per-minute quota
+  requestsPerMinute?: number;
+}
@@ -0,0 +1,38 @@
+import { sleep, throwIfAborted } from "./cancellation";
+
+// Client-side request budget: at most `maxRequests` model calls per sliding window.
+// Batch features (variants, cross-post) fire several calls at once; pacing them here
+// keeps a free-tier key under its per-minute quota instead of collecting 429s.
+export interface RequestBudget {
+  // Resolves when a slot is free. `onWait` reports how long the caller will be held.
+  acquire(signal?: AbortSignal, onWait?: (waitMs: number) => void): Promise<void>;
+}
+
+export const createRequestBudget = (maxRequests: number, windowMs = 60000): RequestBudget => {
+  // Start times of requests inside the current window (including reserved future slots)
+  let starts: number[] = [];
+
+  return {
+    acquire: async (signal, onWait) => {
+      throwIfAborted(signal);
+      const now = Date.now();
+      starts = starts.filter(t => t > now - windowMs);
+
+      // Reserve the earliest free slot synchronously so parallel callers queue in order
+      const slot = starts.length < maxRequests ? now : starts[starts.length - maxRequests] + windowMs;
+      starts.push(slot);
+      starts.sort((a, b) => a - b);
+
+      const waitMs = slot - now;
+      if (waitMs <= 0) return;
+      onWait?.(waitMs);
+      try {
+        await sleep(waitMs, signal);
+      } catch (error) {
+        // Give the slot back if the caller was cancelled while queued
+        starts.splice(starts.indexOf(slot), 1);
+        throw error;
+      }
+    },
+  };
+};
@@ -0,0 +1,118 @@
+import { AnalysisResult } from "../types";
+import { captionToThread } from "./twitterThread";
+
+// Fields of an AnalysisResult the user can edit inline or regenerate on their own
+export type EditableField = 'headline' | 'caption' | 'cta' | 'keywords' | 'hashtags.broad' | 'hashtags.niche' | 'hashtags.specific';
+
+export const EDITABLE_FIELD_LABELS: Record<EditableField, string> = {
+  headline: 'headline',
+  caption: 'caption',
+  cta: 'CTA',
+  keywords: 'hidden keywords',
+  'hashtags.broad': 'broad hashtags',
+  'hashtags.niche': 'niche hashtags',
+  'hashtags.specific': 'specific hashtags',
+};
+
+// Where each field lives in the JSON, for the regeneration prompt
+const FIELD_PATHS: Record<EditableField, string> = {
+  headline: 'strategy.headline',
+  caption: 'strategy.caption',
+  cta: 'strategy.cta',
+  keywords: 'seo.hiddenKeywords',
+  'hashtags.broad': 'seo.hashtags.broad',
+  'hashtags.niche': 'seo.hashtags.niche',
+  'hashtags.specific': 'seo.hashtags.specific',
+};
+
+export const isListField = (field: EditableField) => field === 'keywords' || field.startsWith('hashtags.');
+
+const tierOf = (field: EditableField) => field.split('.')[1] as 'broad' | 'niche' | 'specific';
+
+// Text shown in the inline editor. Keywords can contain spaces, so they're comma separated.
+export const getFieldText = (result: AnalysisResult, field: EditableField): string => {
+  switch (field) {
+    case 'headline':
+    case 'caption':
+    case 'cta':
+      return result.strategy[field];
+    case 'keywords':
+      return result.seo.hiddenKeywords.join(', ');
+    default:
+      return result.seo.hashtags[tierOf(field)].join(' ');
+  }
+};
+
+const parseHashtags = (text: string) =>
+  text.split(/[\s,]+/).map(t => t.trim()).filter(Boolean).map(t => (t.startsWith('#') ? t : `#${t}`));
+
+const parseKeywords = (text: string) =>
+  text.split(/[,\n]+/).map(k => k.trim()).filter(Boolean);
+
+export const setFieldText = (result: AnalysisResult, field: EditableField, text: string): AnalysisResult => {
+  switch (field) {
+    case 'headline':
+    case 'cta':
+      return { ...result, strategy: { ...result.strategy, [field]: text } };
+    case 'caption': {
+      // Editing a thread's caption directly re-splits it, keeping media notes by position
+      const old = result.strategy.thread;
+      const thread = old && old.length > 0
+        ? captionToThread(text).map((t, i) => ({ ...t, mediaSuggestion: old[i]?.mediaSuggestion || '' }))
+        : undefined;
+      return { ...result, strategy: { ...result.strategy, caption: text, ...(thread && { thread }) } };
+    }
+    case 'keywords':
+      return { ...result, seo: { ...result.seo, hiddenKeywords: parseKeywords(text) } };
+    default:
+      return {
+        ...result,
+        seo: { ...result.seo, hashtags: { ...result.seo.hashtags, [tierOf(field)]: parseHashtags(text) } },
+      };
+  }
+};
+
+// Take only `field` from a regenerated result so the model can't drift anything else
+export const pickField = (result: AnalysisResult, regenerated: AnalysisResult, field: EditableField): AnalysisResult => {
+  switch (field) {
+    case 'caption':
+      return {
+        ...result,
+        strategy: {
+          ...result.strategy,
+          caption: regenerated.strategy.caption,
+          ...(regenerated.strategy.thread && { thread: regenerated.strategy.thread }),
+        },
+      };
+    case 'keywords':
+      return { ...result, seo: { ...result.seo, hiddenKeywords: regenerated.seo.hiddenKeywords || [] } };
+    case 'headline':
+    case 'cta':
+      return setFieldText(result, field, regenerated.strategy[field]);
+    default:
+      return {
+        ...result,
+        seo: {
+          ...result.seo,
+          hashtags: { ...result.seo.hashtags, [tierOf(field)]: regenerated.seo.hashtags?.[tierOf(field)] || [] },
+        },
+      };
+  }
+};
+
+// Instructions for the revision pass that rewrites a single field
+export const describeFieldRegeneration = (field: EditableField, result: AnalysisResult): string => {
+  const path = FIELD_PATHS[field];
+  const current = getFieldText(result, field);
+  const lines = [
+    `Rewrite ONLY '${path}'. The current value is:\n${current}`,
+    `Make it meaningfully different and stronger, consistent with the rest of the result. Return every other field unchanged.`,
+  ];
+  if (field === 'caption') {
+    lines.push(`If the result has 'strategy.thread', rewrite the thread as well and keep 'caption' equal to its tweets joined by blank lines.`);
+  }
+  if (isListField(field)) {
+    lines.push(`Return the same number of items (${field === 'keywords' ? result.seo.hiddenKeywords.length : result.seo.hashtags[tierOf(field)].length}).`);
+  }
+  return lines.join('\n');
+};
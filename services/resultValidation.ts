@@ -0,0 +1,508 @@
+import { AnalysisResult, BeatThisNotes, CompetitorAsset, CrossPostPackage, DropOffRisk, HookBreakdown, HookEdit, HookMoment, HookType, Platform, PostingCadence, RecurringPhrase, Shot, ThreadTweet, TrendConfidence, TrendItem } from "../types";
+
+// Runtime checks for model output. Values that can be fixed safely are normalized
+// (clamped, coerced, defaulted); anything the UI can't render without guessing is
+// reported as an error so the caller can ask the model to repair its reply.
+
+export interface Validation<T> {
+  value?: T; // Present only when there are no errors
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+};
+
+const asStringArray = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.split(/[,\n]+/).map(s => s.trim()).filter(Boolean);
+  if (!Array.isArray(value)) return [];
+  return value.map(asString).filter((s): s is string => !!s);
+};
+
+// Exact platform name, or its first word ("Twitter" for "Twitter (X)")
+const asPlatform = (value: unknown, platforms: Platform[] = Object.values(Platform)): Platform | undefined => {
+  const name = (asString(value) || '').toLowerCase();
+  return name ? platforms.find(p => p.toLowerCase() === name || p.toLowerCase().startsWith(name.split(' ')[0])) : undefined;
+};
+
+export const normalizeHashtag = (tag: string) => {
+  const clean = tag.replace(/\s+/g, '').replace(/^#+/, '');
+  return clean ? `#${clean}` : '';
+};
+
+const normalizeHashtags = (value: unknown): string[] =>
+  Array.from(new Set(asStringArray(value).map(normalizeHashtag).filter(Boolean)));
+
+export const clampScore = (score: number) => Math.round(Math.min(100, Math.max(0, score)));
+
+// Words that point at each hook when the model paraphrases the enum value
+const HOOK_KEYWORDS: Record<HookType, string[]> = {
+  [HookType.INTRIGUING_QUESTIONS]: ['question', 'intrigu', 'curiosity', 'ask'],
+  [HookType.BOLD_STATEMENTS]: ['bold', 'startling', 'statement', 'shock', 'contrarian', 'controversial'],
+  [HookType.COMPELLING_VISUALS]: ['visual', 'compelling', 'aesthetic', 'imagery', 'motion'],
+  [HookType.STORYTELLING_SNIPPETS]: ['story', 'narrative', 'snippet', 'anecdote'],
+  [HookType.URGENCY_SCARCITY]: ['urgency', 'urgent', 'scarcity', 'fomo', 'limited', 'deadline'],
+  [HookType.PROBLEM_SOLUTION]: ['problem', 'solution', 'pain', 'fix'],
+  [HookType.AUTHORITY]: ['authority', 'expert', 'credib', 'proof'],
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Exact match, then keyword hits, then smallest edit distance
+export const nearestHookType = (value: string): HookType => {
+  const hooks = Object.values(HookType);
+  const lower = value.toLowerCase().trim();
+  const exact = hooks.find(h => h.toLowerCase() === lower);
+  if (exact) return exact;
+
+  const hits = hooks.map(h => ({ hook: h, count: HOOK_KEYWORDS[h].filter(k => lower.includes(k)).length }));
+  const best = hits.reduce((a, b) => (b.count > a.count ? b : a));
+  if (best.count > 0) return best.hook;
+
+  return hooks.reduce((a, b) => (levenshtein(lower, b.toLowerCase()) < levenshtein(lower, a.toLowerCase()) ? b : a));
+};
+
+const normalizeThread = (value: unknown): ThreadTweet[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const tweets = value
+    .map(item => (typeof item === 'string' ? { text: item } : item))
+    .filter(isObject)
+    .map(item => ({ text: asString(item.text) || '', mediaSuggestion: asString(item.mediaSuggestion) || '' }))
+    .filter(t => t.text)
+    .map((t, i) => ({ index: i + 1, ...t }));
+  return tweets.length > 0 ? tweets : undefined;
+};
+
+const normalizeShotList = (value: unknown): Shot[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const shots = value
+    .map(item => (typeof item === 'string' ? { visual: item } : item))
+    .filter(isObject)
+    .map(item => ({
+      duration: asString(item.duration) || '',
+      visual: asString(item.visual) || '',
+      onScreenText: asString(item.onScreenText) || '',
+      audio: asString(item.audio) || '',
+    }))
+    .filter(s => s.visual)
+    .map((s, i) => ({ index: i + 1, ...s }));
+  return shots.length > 0 ? shots : undefined;
+};
+
+// Rows keep the model's fileIndex when it's a usable position, else their order in the reply
+const normalizeCompetitorAssets = (value: unknown): CompetitorAsset[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const assets = value.filter(isObject).map((item, i): CompetitorAsset => {
+    const index = Math.round(Number(item.fileIndex));
+    const hook = asString(item.hookType);
+    return {
+      fileIndex: Number.isFinite(index) && index >= 1 ? index : i + 1,
+      fileName: '',
+      hookType: hook ? nearestHookType(hook) : HookType.COMPELLING_VISUALS,
+      pacing: asString(item.pacing) || '',
+      dominantColors: asStringArray(item.dominantColors),
+      cta: asString(item.cta) || '',
+      onScreenText: asString(item.onScreenText) || '',
+      format: asString(item.format) || '',
+    };
+  });
+  return assets.length > 0 ? assets : undefined;
+};
+
+const normalizeRecurringPhrases = (value: unknown): RecurringPhrase[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const phrases = value
+    .map(item => (typeof item === 'string' ? { phrase: item } : item))
+    .filter(isObject)
+    .map(item => ({ phrase: asString(item.phrase) || '', count: Math.max(1, Math.round(Number(item.count)) || 1) }))
+    .filter(p => p.phrase)
+    .sort((a, b) => b.count - a.count);
+  return phrases.length > 0 ? phrases : undefined;
+};
+
+const normalizeBeatThis = (value: unknown): BeatThisNotes | undefined => {
+  if (!isObject(value)) return undefined;
+  const borrowed = (Array.isArray(value.borrowed) ? value.borrowed : [])
+    .map(item => (typeof item === 'string' ? { element: item } : item))
+    .filter(isObject)
+    .map(item => ({
+      element: asString(item.element) || '',
+      fromCompetitor: asString(item.fromCompetitor) || '',
+      inThisPost: asString(item.inThisPost) || '',
+    }))
+    .filter(b => b.element);
+  return { formula: asString(value.formula) || '', borrowed, differentiators: asStringArray(value.differentiators) };
+};
+
+export const validateAnalysisResult = (raw: unknown): Validation<AnalysisResult> => {
+  const errors: string[] = [];
+  if (!isObject(raw)) return { errors: ['Response must be a JSON object.'] };
+
+  const required = (path: string, value: unknown): string => {
+    const text = asString(value);
+    if (!text) errors.push(`'${path}' is required and must be a non-empty string.`);
+    return text || '';
+  };
+
+  const visualAudit = isObject(raw.visualAudit) ? raw.visualAudit : {};
+  const strategy = isObject(raw.strategy) ? raw.strategy : {};
+  const seo = isObject(raw.seo) ? raw.seo : {};
+  const hashtags = isObject(seo.hashtags) ? seo.hashtags : {};
+  const virality = isObject(raw.virality) ? raw.virality : {};
+
+  if (!isObject(raw.strategy)) errors.push(`'strategy' is missing.`);
+  if (!isObject(raw.virality)) errors.push(`'virality' is missing.`);
+
+  const hook = asString(visualAudit.hookIdentified);
+  if (!hook) errors.push(`'visualAudit.hookIdentified' is required and must be one of: ${Object.values(HookType).join(', ')}.`);
+
+  const score = typeof virality.score === 'string' ? parseFloat(virality.score) : virality.score;
+  if (isObject(raw.virality) && (typeof score !== 'number' || Number.isNaN(score))) {
+    errors.push(`'virality.score' must be a number from 0 to 100.`);
+  }
+
+  const result: AnalysisResult = {
+    visualAudit: {
+      summary: asString(visualAudit.summary) || '',
+      hookIdentified: hook ? nearestHookType(hook) : HookType.COMPELLING_VISUALS,
+      psychologyCheck: asString(visualAudit.psychologyCheck) || '',
+    },
+    strategy: {
+      headline: required('strategy.headline', strategy.headline),
+      caption: required('strategy.caption', strategy.caption),
+      cta: required('strategy.cta', strategy.cta),
+    },
+    seo: {
+      hiddenKeywords: asStringArray(seo.hiddenKeywords),
+      hashtags: {
+        broad: normalizeHashtags(hashtags.broad),
+        niche: normalizeHashtags(hashtags.niche),
+        specific: normalizeHashtags(hashtags.specific),
+      },
+    },
+    virality: {
+      score: typeof score === 'number' && !Number.isNaN(score) ? clampScore(score) : 0,
+      gapAnalysis: asString(virality.gapAnalysis) || '',
+      trendDetected: asString(virality.trendDetected),
+      vibe: asString(virality.vibe),
+    },
+  };
+
+  const thread = normalizeThread(strategy.thread);
+  if (thread) result.strategy.thread = thread;
+
+  const shotList = normalizeShotList(raw.shotList);
+  if (shotList) result.shotList = shotList;
+
+  const beatThis = normalizeBeatThis(raw.beatThis);
+  if (beatThis) result.beatThis = beatThis;
+
+  if (isObject(raw.competitorInsights)) {
+    result.competitorInsights = {
+      visualTheme: asString(raw.competitorInsights.visualTheme) || '',
+      ctaStrategy: asString(raw.competitorInsights.ctaStrategy) || '',
+      formula: asString(raw.competitorInsights.formula) || '',
+    };
+    const assets = normalizeCompetitorAssets(raw.competitorInsights.assets);
+    if (assets) result.competitorInsights.assets = assets;
+    const recurringPhrases = normalizeRecurringPhrases(raw.competitorInsights.recurringPhrases);
+    if (recurringPhrases) result.competitorInsights.recurringPhrases = recurringPhrases;
+  }
+
+  return errors.length > 0 ? { errors } : { value: result, errors };
+};
+
+// Create from a brief: the storyboard is the point of the run, so it's required
+export const validateBriefResult = (raw: unknown): Validation<AnalysisResult> => {
+  const validation = validateAnalysisResult(raw);
+  if (validation.value && !validation.value.shotList) {
+    return { errors: [`'shotList' is required: an array of { index, duration, visual, onScreenText, audio } shots.`] };
+  }
+  return validation;
+};
+
+// "Beat this": the notes on what was borrowed and what's different are the point of the run
+export const validateBeatThisResult = (raw: unknown): Validation<AnalysisResult> => {
+  const validation = validateAnalysisResult(raw);
+  const notes = validation.value?.beatThis;
+  if (!validation.value) return validation;
+  const errors = [
+    !notes?.borrowed.length && `'beatThis.borrowed' must list the formula elements used, as { element, fromCompetitor, inThisPost }.`,
+    !notes?.differentiators.length && `'beatThis.differentiators' must list how this post differs from the competitor set.`,
+  ].filter((e): e is string => !!e);
+  return errors.length > 0 ? { errors } : validation;
+};
+
+// Competitor Spy: one report row per uploaded asset. Duplicate rows and rows pointing
+// past the upload are dropped.
+export const validateSpyResult = (raw: unknown, fileCount: number): Validation<AnalysisResult> => {
+  const validation = validateAnalysisResult(raw);
+  const insights = validation.value?.competitorInsights;
+  if (!validation.value) return validation;
+  if (!insights) return { errors: [`'competitorInsights' is required.`] };
+
+  const seen = new Set<number>();
+  const assets = (insights.assets || []).filter(a => {
+    if (a.fileIndex > fileCount || seen.has(a.fileIndex)) return false;
+    seen.add(a.fileIndex);
+    return true;
+  });
+  if (assets.length < fileCount) {
+    return { errors: [`'competitorInsights.assets' must have one row per input (fileIndex 1 to ${fileCount}); got ${assets.length}.`] };
+  }
+  insights.assets = assets.sort((a, b) => a.fileIndex - b.fileIndex);
+  return validation;
+};
+
+// Lenient fill of a partially streamed result for progressive rendering. Nothing is
+// reported: missing fields stay empty until they arrive, and the final reply still
+// goes through validateAnalysisResult.
+export const previewAnalysisResult = (raw: unknown): AnalysisResult => {
+  const source = isObject(raw) ? raw : {};
+  const visualAudit = isObject(source.visualAudit) ? source.visualAudit : {};
+  const strategy = isObject(source.strategy) ? source.strategy : {};
+  const seo = isObject(source.seo) ? source.seo : {};
+  const hashtags = isObject(seo.hashtags) ? seo.hashtags : {};
+  const virality = isObject(source.virality) ? source.virality : {};
+  const score = typeof virality.score === 'string' ? parseFloat(virality.score) : virality.score;
+
+  return {
+    visualAudit: {
+      summary: asString(visualAudit.summary) || '',
+      // Not snapped to the enum yet: a half-streamed name would jump between hooks
+      hookIdentified: (asString(visualAudit.hookIdentified) || '') as HookType,
+      psychologyCheck: asString(visualAudit.psychologyCheck) || '',
+    },
+    strategy: {
+      headline: asString(strategy.headline) || '',
+      caption: asString(strategy.caption) || '',
+      cta: asString(strategy.cta) || '',
+      thread: normalizeThread(strategy.thread),
+    },
+    seo: {
+      hiddenKeywords: asStringArray(seo.hiddenKeywords),
+      hashtags: {
+        broad: normalizeHashtags(hashtags.broad),
+        niche: normalizeHashtags(hashtags.niche),
+        specific: normalizeHashtags(hashtags.specific),
+      },
+    },
+    virality: {
+      score: typeof score === 'number' && !Number.isNaN(score) ? clampScore(score) : 0,
+      gapAnalysis: asString(virality.gapAnalysis) || '',
+      trendDetected: asString(virality.trendDetected),
+      vibe: asString(virality.vibe),
+    },
+    competitorInsights: isObject(source.competitorInsights) ? {
+      visualTheme: asString(source.competitorInsights.visualTheme) || '',
+      ctaStrategy: asString(source.competitorInsights.ctaStrategy) || '',
+      formula: asString(source.competitorInsights.formula) || '',
+      assets: normalizeCompetitorAssets(source.competitorInsights.assets),
+      recurringPhrases: normalizeRecurringPhrases(source.competitorInsights.recurringPhrases),
+    } : undefined,
+    shotList: normalizeShotList(source.shotList),
+    beatThis: normalizeBeatThis(source.beatThis),
+  };
+};
+
+// Tweets sometimes come back as { text } objects rather than plain strings
+const asTextList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : asStringArray(value))
+    .map(item => (isObject(item) ? asString(item.text) : asString(item)))
+    .filter((s): s is string => !!s);
+
+export const validateCrossPostPackage = (raw: unknown, platform: Platform): Validation<CrossPostPackage> => {
+  if (!isObject(raw)) return { errors: ['Response must be a JSON object.'] };
+  const errors: string[] = [];
+  const required = (path: string) => {
+    const text = asString(raw[path]);
+    if (!text) errors.push(`'${path}' is required and must be a non-empty string.`);
+    return text || '';
+  };
+  const headline = required('headline');
+  const body = required('body');
+  const cta = required('cta');
+
+  const chapters = (Array.isArray(raw.chapters) ? raw.chapters : [])
+    .filter(isObject)
+    .map(item => ({ timestamp: asString(item.timestamp) || '', title: asString(item.title) || '' }))
+    .filter(c => c.timestamp && c.title);
+  const thread = asTextList(raw.thread);
+  const onScreenText = asTextList(raw.onScreenText);
+
+  if (errors.length > 0) return { errors };
+  return {
+    value: {
+      platform,
+      headline,
+      body,
+      cta,
+      hashtags: normalizeHashtags(raw.hashtags),
+      ...(thread.length > 0 && { thread }),
+      ...(chapters.length > 0 && { chapters }),
+      ...(onScreenText.length > 0 && { onScreenText }),
+    },
+    errors,
+  };
+};
+
+const TREND_CONFIDENCE: TrendConfidence[] = ['high', 'medium', 'low'];
+
+// Accepts { trends: [...] }, a bare array, or a single trend object
+export const validateTrends = (raw: unknown): Validation<TrendItem[]> => {
+  const list = Array.isArray(raw)
+    ? raw
+    : isObject(raw) && Array.isArray(raw.trends)
+      ? raw.trends
+      : isObject(raw) && (raw.headline || raw.contentIdea)
+        ? [raw]
+        : null;
+  if (!list) return { errors: [`Response must be a JSON object with a 'trends' array.`] };
+
+  const errors: string[] = [];
+  const trends = list.filter(isObject).map((item, i): TrendItem => {
+    const headline = asString(item.headline);
+    const contentIdea = asString(item.contentIdea);
+    if (!headline) errors.push(`'trends[${i}].headline' is required.`);
+    if (!contentIdea) errors.push(`'trends[${i}].contentIdea' is required.`);
+    // Keep any extra fields the prompt asked for. Sources come from search grounding
+    // only, never from URLs the model wrote itself.
+    const { sources, grounded, ...rest } = item;
+    const firstSeen = asString(item.firstSeen)?.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+    const confidence = (asString(item.confidence) || '').toLowerCase();
+    return {
+      ...rest,
+      headline: headline || '',
+      whyItsHot: asString(item.whyItsHot) || '',
+      contentIdea: contentIdea || '',
+      firstSeen,
+      confidence: TREND_CONFIDENCE.includes(confidence as TrendConfidence) ? confidence as TrendConfidence : undefined,
+      platforms: Array.from(new Set(asStringArray(item.platforms).map(p => asPlatform(p)).filter((p): p is Platform => !!p))),
+    };
+  });
+  if (trends.length === 0) errors.push(`'trends' must contain at least one trend.`);
+
+  return errors.length > 0 ? { errors } : { value: trends, errors };
+};
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const asWeekday = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 6) return value;
+  const index = WEEKDAYS.indexOf((asString(value) || '').toLowerCase().slice(0, 3));
+  return index >= 0 ? index : undefined;
+};
+
+// "7pm", "7:30 PM", "19:00" -> "19:00" / "19:30"
+const asTime = (value: unknown): string | undefined => {
+  const match = (asString(value) || '').toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return undefined;
+  let hours = parseInt(match[1], 10) % (match[3] ? 12 : 24);
+  if (match[3] === 'pm') hours += 12;
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (minutes > 59) return undefined;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// Accepts { cadence: [...] } or a bare array. Only the requested platforms are kept.
+export const validateCadence = (raw: unknown, platforms: Platform[]): Validation<PostingCadence[]> => {
+  const list = Array.isArray(raw) ? raw : isObject(raw) && Array.isArray(raw.cadence) ? raw.cadence : null;
+  if (!list) return { errors: [`Response must be a JSON object with a 'cadence' array.`] };
+
+  const errors: string[] = [];
+  const cadence = list.filter(isObject).flatMap((item, i): PostingCadence[] => {
+    const platform = asPlatform(item.platform, platforms);
+    if (!platform) return [];
+
+    const postsPerWeek = Math.round(Number(item.postsPerWeek));
+    if (!Number.isFinite(postsPerWeek) || postsPerWeek < 1) errors.push(`'cadence[${i}].postsPerWeek' must be a positive integer.`);
+    const bestDays = Array.from(new Set((Array.isArray(item.bestDays) ? item.bestDays : asStringArray(item.bestDays))
+      .map(asWeekday).filter((d: number | undefined): d is number => d !== undefined))).sort();
+    const bestTimes = Array.from(new Set(asStringArray(item.bestTimes).map(asTime).filter((t): t is string => !!t))).sort();
+    if (bestTimes.length === 0) errors.push(`'cadence[${i}].bestTimes' must contain at least one "HH:MM" time.`);
+
+    return [{ platform, postsPerWeek: Math.min(postsPerWeek, 21), bestDays, bestTimes, rationale: asString(item.rationale) || '' }];
+  });
+  if (cadence.length === 0) errors.push(`'cadence' must contain an entry for each of: ${platforms.join(', ')}.`);
+
+  return errors.length > 0 ? { errors } : { value: cadence, errors };
+};
+
+export const validateTranscript = (raw: unknown): Validation<string> => {
+  const transcript = isObject(raw) ? raw.transcript : undefined;
+  if (typeof transcript !== 'string') return { errors: [`Response must be a JSON object with a 'transcript' string.`] };
+  return { value: transcript.trim(), errors: [] };
+};
+
+const DROP_OFF_RISKS: DropOffRisk[] = ['low', 'medium', 'high'];
+
+const asSeconds = (value: unknown): number | undefined => {
+  const seconds = typeof value === 'string' ? parseFloat(value.replace(/s$/i, '')) : Number(value);
+  return typeof value !== 'boolean' && value !== null && value !== '' && Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+// Moments are snapped to the nearest sampled frame; every frame needs exactly one
+export const validateHookAnalysis = (raw: unknown, times: number[]): Validation<HookBreakdown> => {
+  if (!isObject(raw)) return { errors: ['Response must be a JSON object.'] };
+  const errors: string[] = [];
+  const nearestTime = (seconds: number) =>
+    times.reduce((best, t) => (Math.abs(t - seconds) < Math.abs(best - seconds) ? t : best), times[0]);
+
+  const byTime = new Map<number, HookMoment>();
+  (Array.isArray(raw.moments) ? raw.moments : []).filter(isObject).forEach((item, i) => {
+    const seconds = asSeconds(item.time);
+    const time = seconds === undefined ? times[i] : nearestTime(seconds);
+    if (time === undefined || byTime.has(time)) return;
+    byTime.set(time, {
+      time,
+      textOverlay: asString(item.textOverlay) || '',
+      motion: asString(item.motion) || '',
+      speech: asString(item.speech) || '',
+      note: asString(item.note) || '',
+    });
+  });
+  const missing = times.filter(t => !byTime.has(t));
+  if (missing.length > 0) errors.push(`'moments' must contain one entry per frame; missing: ${missing.map(t => `${t}s`).join(', ')}.`);
+
+  const hook = asString(raw.hookType);
+  if (!hook) errors.push(`'hookType' is required and must be one of: ${Object.values(HookType).join(', ')}.`);
+  const risk = asString(raw.dropOffRisk)?.toLowerCase() as DropOffRisk | undefined;
+  if (!risk || !DROP_OFF_RISKS.includes(risk)) errors.push(`'dropOffRisk' must be one of: ${DROP_OFF_RISKS.join(', ')}.`);
+
+  const edits = (Array.isArray(raw.edits) ? raw.edits : [])
+    .map(item => (typeof item === 'string' ? { edit: item } : item))
+    .filter(isObject)
+    .map((item): HookEdit => ({ time: asSeconds(item.time) ?? 0, edit: asString(item.edit) || '' }))
+    .filter(e => e.edit)
+    .sort((a, b) => a.time - b.time);
+  if (edits.length === 0) errors.push(`'edits' must contain at least one { time, edit } re-edit suggestion.`);
+
+  if (errors.length > 0) return { errors };
+  return {
+    value: {
+      hookType: nearestHookType(hook!),
+      firstFrameText: asString(raw.firstFrameText) || byTime.get(times[0])!.textOverlay,
+      speechStart: asSeconds(raw.speechStart) ?? null,
+      dropOffRisk: risk!,
+      dropOffReason: asString(raw.dropOffReason) || '',
+      moments: times.map(t => byTime.get(t)!),
+      edits,
+    },
+    errors,
+  };
+};
@@ -0,0 +1,82 @@
+import { sleep } from "./cancellation";
+
+// Shared retry policy for uploads, polling and generation.
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first try
+  baseDelayMs: number; // Backoff before the 2nd attempt; doubles each time
+  maxDelayMs: number; // Cap for computed backoff
+  maxRetryAfterMs: number; // Server hints longer than this (e.g. daily quota) aren't worth waiting for
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  maxRetryAfterMs: 60000,
+};
+
+export interface RetryInfo {
+  attempt: number; // The attempt about to start (2 = first retry)
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504];
+
+const statusOf = (error: any): number | undefined =>
+  typeof error?.status === 'number' ? error.status : undefined;
+
+// Only transient failures: rate limits, overloaded/unavailable servers, dropped connections
+export const isRetryable = (error: any): boolean => {
+  if (!error || error.name === 'AbortError') return false;
+  const status = statusOf(error);
+  if (status !== undefined) return RETRYABLE_STATUS.includes(status);
+  return /failed to fetch|fetch failed|network ?error|econnreset|unavailable|overloaded/i.test(error.message || '');
+};
+
+// Short human reason for progress messages
+export const describeRetryReason = (error: any): string => {
+  const status = statusOf(error);
+  if (status === 429) return 'rate limited';
+  if (status !== undefined && status >= 500) return 'server busy';
+  if (status === 408) return 'request timed out';
+  return 'connection dropped';
+};
+
+// Gemini puts RetryInfo ("retryDelay": "27s") in the error body and "retry in 27.3s" in the text
+export const retryAfterMs = (error: any): number | undefined => {
+  const message: string = error?.message || '';
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Exponential backoff with "equal jitter": half fixed, half random, so parallel
+// requests that failed together don't all retry in the same instant
+export const backoffDelay = (attempt: number, policy: RetryPolicy, random = Math.random): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 2));
+  return Math.round(exponential / 2 + (exponential / 2) * random());
+};
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export const withRetry = async <T>(operation: (attempt: number) => Promise<T>, { policy = DEFAULT_RETRY_POLICY, signal, onRetry }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= policy.maxAttempts || !isRetryable(error)) throw error;
+
+      const hint = retryAfterMs(error);
+      if (hint !== undefined && hint > policy.maxRetryAfterMs) throw error;
+      const delayMs = Math.max(hint ?? 0, backoffDelay(attempt + 1, policy));
+
+      onRetry?.({ attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,38 @@
+export interface DiffToken {
+  text: string;
+  changed: boolean;
+}
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter(t => t.length > 0);
+
+// Word-level diff: returns `next` split into tokens, flagging words not present in `base`
+// (by longest common subsequence). Whitespace is never flagged.
+export const diffWords = (base: string, next: string): DiffToken[] => {
+  const a = tokenize(base);
+  const b = tokenize(next);
+
+  // LCS table, sized (a+1) x (b+1)
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (j < b.length) {
+    if (i < a.length && a[i] === b[j]) {
+      tokens.push({ text: b[j], changed: false });
+      i++;
+      j++;
+    } else if (i < a.length && table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      tokens.push({ text: b[j], changed: !/^\s+$/.test(b[j]) });
+      j++;
+    }
+  }
+  return tokens;
+};
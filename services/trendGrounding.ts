@@ -0,0 +1,59 @@
+import { TrendItem, TrendSource } from "../types";
+import { LLMGrounding } from "./providers";
+
+// Search grounding reports which segments of the raw reply are backed by which pages.
+// In a JSON reply a segment is a field value (sometimes with its key and quotes), so
+// each one is matched back to the trend whose text contains it. Trends nothing matched
+// are flagged as ungrounded: the model may have invented them.
+
+// Shorter segments ("TikTok", a key name) would match the wrong trend
+const MIN_SEGMENT_LENGTH = 12;
+const PREFIX_MATCH_LENGTH = 40;
+
+const normalize = (text: string) => text.replace(/\\(.)/g, '$1').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Longest quoted piece of a segment like `"whyItsHot": "People are swapping...",`
+const segmentValue = (segment: string) =>
+  segment.split('"').map(normalize).reduce((a, b) => (b.length > a.length ? b : a), '');
+
+export const attachTrendSources = (trends: TrendItem[], grounding?: LLMGrounding): TrendItem[] => {
+  const texts = trends.map(t => normalize(`${t.headline} ${t.whyItsHot} ${t.contentIdea}`));
+  const found = trends.map(() => new Map<string, TrendSource>());
+
+  grounding?.supports.forEach(support => {
+    const value = segmentValue(support.text);
+    if (value.length < MIN_SEGMENT_LENGTH) return;
+    // Fall back to a prefix: the model may re-escape quotes or emoji differently
+    const index = texts.findIndex(t => t.includes(value) || (value.length > PREFIX_MATCH_LENGTH && t.includes(value.slice(0, PREFIX_MATCH_LENGTH))));
+    if (index < 0) return;
+    support.sourceIndices.forEach(i => {
+      const source = grounding.sources[i];
+      if (source?.uri) found[index].set(source.uri, source);
+    });
+  });
+
+  return trends.map((trend, i) => {
+    const sources = Array.from(found[i].values());
+    const grounded = sources.length > 0;
+    return { ...trend, sources, grounded, confidence: grounded ? trend.confidence : 'low' };
+  });
+};
+
+export type TrendFreshness = 'new' | 'recent' | 'established';
+
+export const FRESHNESS_LABELS: Record<TrendFreshness, string> = {
+  new: 'New this week',
+  recent: 'This month',
+  established: 'Established',
+};
+
+const FRESHNESS_DAYS: [TrendFreshness, number][] = [['new', 7], ['recent', 31]];
+
+// Age bucket from the first-seen estimate; undefined when there's no usable date
+export const trendFreshness = (trend: TrendItem, now = new Date()): TrendFreshness | undefined => {
+  if (!trend.firstSeen) return undefined;
+  const firstSeen = new Date(`${trend.firstSeen}T00:00:00`);
+  if (Number.isNaN(firstSeen.getTime())) return undefined;
+  const days = (now.getTime() - firstSeen.getTime()) / 86400000;
+  return FRESHNESS_DAYS.find(([, max]) => days <= max)?.[0] ?? 'established';
+};
@@ -0,0 +1,86 @@
+import { Platform, TrendItem, TrendStatus, TrendWatchlist } from "../types";
+import { getAll, put, remove, STORES } from "./db";
+
+// Saved Trend Hunter searches. Each re-run is compared with the previous one so the
+// user sees what's new, what is still hot and what has dropped off.
+
+// Older runs aren't diffed against, so only a few are kept
+const MAX_RUNS = 5;
+
+// Headlines are reworded between runs; this share of shared words counts as the same trend
+const SAME_TREND_SIMILARITY = 0.5;
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'vs', 'is', 'your', 'this']);
+
+export const TREND_STATUS_LABELS: Record<TrendStatus, string> = {
+  new: 'New',
+  'still-hot': 'Still Hot',
+  faded: 'Faded',
+};
+
+export interface TrendDiffItem {
+  trend: TrendItem;
+  status: TrendStatus;
+}
+
+const words = (text: string) =>
+  new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(w => w && !STOP_WORDS.has(w)));
+
+// Jaccard similarity of headline words
+const similarity = (a: TrendItem, b: TrendItem) => {
+  const wa = words(a.headline);
+  const wb = words(b.headline);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  const shared = Array.from(wa).filter(w => wb.has(w)).length;
+  return shared / (wa.size + wb.size - shared);
+};
+
+// Current trends first (new or still hot, in the order the model ranked them), then the
+// previous run's trends that no longer appear. Each previous trend matches at most once.
+export const diffTrendRuns = (previous: TrendItem[], current: TrendItem[]): TrendDiffItem[] => {
+  const unmatched = new Set(previous);
+  const currentItems = current.map((trend): TrendDiffItem => {
+    let best: TrendItem | undefined;
+    let bestScore = SAME_TREND_SIMILARITY;
+    unmatched.forEach(candidate => {
+      const score = similarity(trend, candidate);
+      if (score >= bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    });
+    if (best) unmatched.delete(best);
+    return { trend, status: best ? 'still-hot' : 'new' };
+  });
+  return [...currentItems, ...Array.from(unmatched).map((trend): TrendDiffItem => ({ trend, status: 'faded' }))];
+};
+
+export const watchlistLabel = (watchlist: Pick<TrendWatchlist, 'niche' | 'platform'>) =>
+  `${watchlist.niche} · ${watchlist.platform || 'All platforms'}`;
+
+export const findWatchlist = (watchlists: TrendWatchlist[], niche: string, platform?: Platform) =>
+  watchlists.find(w => w.niche.trim().toLowerCase() === niche.trim().toLowerCase() && w.platform === platform);
+
+export const createWatchlist = (niche: string, platform?: Platform, trends?: TrendItem[]): TrendWatchlist => ({
+  id: crypto.randomUUID(),
+  niche: niche.trim(),
+  platform,
+  runs: trends ? [{ runAt: Date.now(), trends }] : [],
+  createdAt: Date.now(),
+});
+
+// Adds a run and returns the updated watchlist with the diff against the previous run.
+// The first run has nothing to compare with, so every trend is new.
+export const recordWatchlistRun = (watchlist: TrendWatchlist, trends: TrendItem[]): { watchlist: TrendWatchlist; diff: TrendDiffItem[] } => ({
+  watchlist: { ...watchlist, runs: [{ runAt: Date.now(), trends }, ...watchlist.runs].slice(0, MAX_RUNS) },
+  diff: diffTrendRuns(watchlist.runs[0]?.trends || [], trends),
+});
+
+export const listWatchlists = async (): Promise<TrendWatchlist[]> => {
+  const watchlists = await getAll<TrendWatchlist>(STORES.WATCHLISTS);
+  return watchlists.sort((a, b) => (b.runs[0]?.runAt ?? b.createdAt) - (a.runs[0]?.runAt ?? a.createdAt));
+};
+
+export const saveWatchlist = (watchlist: TrendWatchlist) => put(STORES.WATCHLISTS, watchlist);
+
+export const deleteWatchlist = (id: string) => remove(STORES.WATCHLISTS, id);
@@ -0,0 +1,77 @@
+import { AnalysisResult, Platform, ThreadTweet } from "../types";
+
+// Helpers for structured Twitter (X) threads. The thread is the source of truth;
+// 'strategy.caption' is kept as the tweets joined by blank lines for export & checks.
+
+// Legacy/unstructured threads arrive as one caption with tweets separated by blank lines
+export const splitThread = (caption: string): string[] =>
+  caption.split(/\n\s*\n/).map(t => t.trim()).filter(Boolean);
+
+export const reindexThread = (thread: ThreadTweet[]): ThreadTweet[] =>
+  thread.map((tweet, i) => ({ ...tweet, index: i + 1 }));
+
+export const captionToThread = (caption: string): ThreadTweet[] =>
+  reindexThread(splitThread(caption).map(text => ({ index: 0, text, mediaSuggestion: '' })));
+
+export const threadToCaption = (thread: ThreadTweet[]): string =>
+  thread.map(t => t.text.trim()).filter(Boolean).join('\n\n');
+
+// Tweets of a result, whether or not the model returned a structured thread
+export const tweetsOf = (result: AnalysisResult): string[] =>
+  result.strategy.thread && result.strategy.thread.length > 0
+    ? result.strategy.thread.map(t => t.text)
+    : splitThread(result.strategy.caption);
+
+// Twitter results always carry a structured thread with a caption that mirrors it
+export const ensureThread = (result: AnalysisResult, platform: Platform): AnalysisResult => {
+  if (platform !== Platform.TWITTER) return result;
+  const thread = result.strategy.thread && result.strategy.thread.length > 0
+    ? reindexThread(result.strategy.thread.map(t => ({ ...t, mediaSuggestion: t.mediaSuggestion || '' })))
+    : captionToThread(result.strategy.caption);
+  return { ...result, strategy: { ...result.strategy, thread, caption: threadToCaption(thread) } };
+};
+
+export const moveTweet = (thread: ThreadTweet[], index: number, direction: -1 | 1): ThreadTweet[] => {
+  const target = index + direction;
+  if (target < 0 || target >= thread.length) return thread;
+  const next = [...thread];
+  [next[index], next[target]] = [next[target], next[index]];
+  return reindexThread(next);
+};
+
+// Split at `position`; when that's an edge, split at the sentence boundary nearest the middle
+export const splitTweet = (thread: ThreadTweet[], index: number, position?: number): ThreadTweet[] => {
+  const text = thread[index].text;
+  let at = position ?? 0;
+  if (at <= 0 || at >= text.length) {
+    const middle = text.length / 2;
+    const boundaries = Array.from(text.matchAll(/[.!?]\s+/g)).map(m => m.index! + m[0].length);
+    at = boundaries.length > 0
+      ? boundaries.reduce((best, b) => (Math.abs(b - middle) < Math.abs(best - middle) ? b : best))
+      : text.lastIndexOf(' ', middle) > 0 ? text.lastIndexOf(' ', middle) : Math.floor(middle);
+  }
+  const first = { ...thread[index], text: text.slice(0, at).trim() };
+  const second = { index: 0, text: text.slice(at).trim(), mediaSuggestion: '' };
+  if (!first.text || !second.text) return thread;
+  return reindexThread([...thread.slice(0, index), first, second, ...thread.slice(index + 1)]);
+};
+
+export const mergeWithNext = (thread: ThreadTweet[], index: number): ThreadTweet[] => {
+  if (index >= thread.length - 1) return thread;
+  const current = thread[index];
+  const next = thread[index + 1];
+  const merged = {
+    ...current,
+    text: `${current.text.trim()} ${next.text.trim()}`,
+    mediaSuggestion: [current.mediaSuggestion, next.mediaSuggestion].filter(Boolean).join(' / '),
+  };
+  return reindexThread([...thread.slice(0, index), merged, ...thread.slice(index + 2)]);
+};
+
+export const removeTweet = (thread: ThreadTweet[], index: number): ThreadTweet[] =>
+  reindexThread(thread.filter((_, i) => i !== index));
+
+export const numberTweet = (text: string, index: number, total: number) => `${index + 1}/${total} ${text}`;
+
+export const formatThreadForCopy = (thread: ThreadTweet[]): string =>
+  thread.map((t, i) => numberTweet(t.text, i, thread.length)).join('\n\n');
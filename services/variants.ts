@@ -0,0 +1,51 @@
+import { AnalysisResult, HookType } from "../types";
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 5;
+
+// Order in which hooks are handed out to variants; the most broadly effective first
+const VARIANT_HOOK_ORDER: HookType[] = [
+  HookType.BOLD_STATEMENTS,
+  HookType.INTRIGUING_QUESTIONS,
+  HookType.PROBLEM_SOLUTION,
+  HookType.STORYTELLING_SNIPPETS,
+  HookType.COMPELLING_VISUALS,
+  HookType.URGENCY_SCARCITY,
+  HookType.AUTHORITY,
+];
+
+export const pickVariantHooks = (count: number): HookType[] => VARIANT_HOOK_ORDER.slice(0, count);
+
+export type MergeField = 'headline' | 'caption' | 'cta' | 'hashtags';
+
+export type MergePicks = Record<MergeField, number>;
+
+export const bestVariantIndex = (variants: AnalysisResult[]): number =>
+  variants.reduce((best, v, i) => (v.virality.score > variants[best].virality.score ? i : best), 0);
+
+export const picksFor = (index: number): MergePicks => ({ headline: index, caption: index, cta: index, hashtags: index });
+
+// The winner supplies everything not explicitly picked from another variant
+export const mergeVariants = (variants: AnalysisResult[], winner: number, picks: MergePicks): AnalysisResult => {
+  const base = variants[winner];
+  return {
+    ...base,
+    strategy: {
+      headline: variants[picks.headline].strategy.headline,
+      caption: variants[picks.caption].strategy.caption,
+      cta: variants[picks.cta].strategy.cta,
+      // The caption mirrors the thread on Twitter, so they travel together
+      thread: variants[picks.caption].strategy.thread,
+    },
+    seo: {
+      ...base.seo,
+      hashtags: variants[picks.hashtags].seo.hashtags,
+    },
+  };
+};
+
+export const allHashtags = (result: AnalysisResult): string[] => [
+  ...result.seo.hashtags.broad,
+  ...result.seo.hashtags.niche,
+  ...result.seo.hashtags.specific,
+];
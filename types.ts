@@ -4,6 +4,7 @@ export enum AppMode {
   REFINE = 'REFINE', // Mode B
   COMPETITOR_SPY = 'COMPETITOR_SPY', // Mode C
   TREND_HUNTER = 'TREND_HUNTER', // New Mode: Find Trends
+  CROSS_POST = 'CROSS_POST', // One asset, every selected platform
 }
 
 export enum Platform {
@@ -25,6 +26,62 @@ export enum HookType {
   AUTHORITY = 'Authority',
 }
 
+export interface ThreadTweet {
+  index: number; // 1-based position in the thread
+  text: string;
+  mediaSuggestion: string;
+}
+
+// One shot in the storyboard for a post generated from a brief
+export interface Shot {
+  index: number; // 1-based position in the edit
+  duration: string; // e.g. "0-3s"
+  visual: string; // What to film: framing, action, setting
+  onScreenText: string;
+  audio: string; // Voiceover, dialogue or sound cue
+}
+
+// One competitor asset in a Spy report
+export interface CompetitorAsset {
+  fileIndex: number; // 1-based position in the uploaded set
+  fileName: string; // Filled in from the upload, not by the model
+  hookType: HookType;
+  pacing: string;
+  dominantColors: string[]; // Hex codes
+  cta: string;
+  onScreenText: string; // Verbatim overlays; empty if none
+  format: string; // Estimated, e.g. "Talking-head Reel, ~30s"
+}
+
+// Wording that shows up in more than one competitor asset
+export interface RecurringPhrase {
+  phrase: string;
+  count: number; // Assets using it
+}
+
+export interface CompetitorInsights {
+  visualTheme: string;
+  ctaStrategy: string;
+  formula: string;
+  // Structured report; missing on Spy runs saved before it existed
+  assets?: CompetitorAsset[];
+  recurringPhrases?: RecurringPhrase[];
+}
+
+// Part of a competitor's decoded formula reused in a "beat this" post
+export interface BorrowedElement {
+  element: string; // e.g. "Contrarian opener"
+  fromCompetitor: string; // How the competitor set uses it
+  inThisPost: string; // How this post applies it
+}
+
+// Why a post generated from a Spy formula looks the way it does
+export interface BeatThisNotes {
+  formula: string; // The decoded formula it was modelled on, copied from the Spy run
+  borrowed: BorrowedElement[];
+  differentiators: string[]; // How this post stands apart from the competitor set
+}
+
 export interface AnalysisResult {
   visualAudit: {
     summary: string;
@@ -35,6 +92,7 @@ export interface AnalysisResult {
     headline: string;
     caption: string;
     cta: string;
+    thread?: ThreadTweet[]; // Twitter (X) only; 'caption' mirrors it joined by blank lines
   };
   seo: {
     hiddenKeywords: string[];
@@ -50,21 +108,225 @@ export interface AnalysisResult {
     trendDetected?: string; 
     vibe?: string; 
   };
-  competitorInsights?: {
-    visualTheme: string;
-    ctaStrategy: string;
-    formula: string;
-  }; 
+  competitorInsights?: CompetitorInsights;
+  shotList?: Shot[]; // Create from a brief: what to film, hook first
+  beatThis?: BeatThisNotes; // Spy follow-up: the user's asset written to a competitor formula
 }
 
+// One platform's ready-to-post package from Cross-Post mode
+export interface CrossPostPackage {
+  platform: Platform;
+  headline: string; // Title / overlay text
+  body: string; // Caption, post or description
+  cta: string;
+  hashtags: string[];
+  thread?: string[]; // Twitter (X): one entry per tweet
+  chapters?: { timestamp: string; title: string }[]; // YouTube
+  onScreenText?: string[]; // TikTok / Reels text overlays, in order
+}
+
+// A web page Google Search grounding used for a trend
+export interface TrendSource {
+  uri: string;
+  title: string;
+}
+
+export type TrendConfidence = 'high' | 'medium' | 'low';
+
 export interface TrendItem {
   headline: string;
   whyItsHot: string;
   contentIdea: string;
+  // Grounding details; missing on trends saved before they existed
+  sources?: TrendSource[]; // Only pages the search grounding tied to this trend
+  grounded?: boolean; // False when no search result backs the trend (likely invented)
+  firstSeen?: string; // Model's estimate, YYYY-MM-DD
+  confidence?: TrendConfidence; // Capped at 'low' when ungrounded
+  platforms?: Platform[]; // Where the trend is playing out
+}
+
+// One planned post on the content calendar. Content is copied in when the item is
+// scheduled, so later edits to the source run don't change the plan.
+export interface CalendarEntry {
+  id: string;
+  date: string; // Local day, YYYY-MM-DD
+  time: string; // Local time, HH:MM (24h)
+  platform: Platform;
+  source: 'trend' | 'result';
+  title: string;
+  body: string; // Caption, or the trend's content idea
+  cta: string;
+  hashtags: string[];
+  notes: string;
+  trend?: TrendItem;
+  result?: AnalysisResult;
+  createdAt: number;
+}
+
+// Model-suggested posting rhythm for one platform
+export interface PostingCadence {
+  platform: Platform;
+  postsPerWeek: number;
+  bestDays: number[]; // 0 = Sunday, as Date.getDay()
+  bestTimes: string[]; // HH:MM (24h), audience local time
+  rationale: string;
+}
+
+// A Spy run filed under a competitor. The report is copied in, so later edits to the
+// run's result don't rewrite the competitor's history.
+export interface CompetitorRun {
+  id: string;
+  runAt: number;
+  summary: string; // The pattern found across the set
+  dominantHook: HookType;
+  insights: CompetitorInsights;
+  fileCount: number;
+}
+
+// A competitor account tracked across Spy runs
+export interface Competitor {
+  id: string;
+  name: string; // Account name or handle
+  runs: CompetitorRun[]; // Newest first
+  createdAt: number;
+}
+
+// How a trend compares with the previous run of the same watchlist
+export type TrendStatus = 'new' | 'still-hot' | 'faded';
+
+export interface WatchlistRun {
+  runAt: number;
+  trends: TrendItem[];
+}
+
+// A saved niche (and optional platform) that can be re-hunted on demand
+export interface TrendWatchlist {
+  id: string;
+  niche: string;
+  platform?: Platform; // Unset = all platforms
+  runs: WatchlistRun[]; // Newest first, capped
+  createdAt: number;
 }
 
 export interface FileInput {
   file: File;
   preview: string;
-  type: 'image' | 'video';
+  type: 'image' | 'video' | 'document';
+}
+
+export enum LLMProviderId {
+  GEMINI = 'gemini',
+  MOCK = 'mock', // Offline fixtures for demos & tests
+}
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string;
+}
+
+// Idea-stage input for Create when nothing has been filmed yet
+export interface ContentBrief {
+  topic: string;
+  keyPoints: string; // One per line
+  offer: string;
+  links: string; // One per line
+}
+
+export type VideoHandling = 'full' | 'keyframes';
+
+// In-browser preprocessing applied to uploads before they're sent
+export interface MediaProcessing {
+  videoHandling: VideoHandling; // 'keyframes' sends one sheet of frames per video instead of the file
+  keyframeCount: number; // Frames per video, the first frame always included
+  maxImageDimension: number; // Longest edge in px; larger images are downscaled
+  transcribeAudio: boolean; // Keyframes only: add a transcript of the audio track
+}
+
+export type DropOffRisk = 'low' | 'medium' | 'high';
+
+// One sampled frame of a video's opening seconds
+export interface HookMoment {
+  time: number; // Seconds from the start
+  textOverlay: string; // On-screen text in this frame ('' if none)
+  motion: string;
+  speech: string; // Words heard around this moment ('' if silent)
+  note: string; // What this moment does for, or against, the hook
+}
+
+export interface HookEdit {
+  time: number; // Where in the opening the change applies
+  edit: string;
+}
+
+// The model's read of the first seconds of a video
+export interface HookBreakdown {
+  hookType: HookType;
+  firstFrameText: string;
+  speechStart: number | null; // Seconds; null when nobody speaks in the window
+  dropOffRisk: DropOffRisk;
+  dropOffReason: string;
+  moments: HookMoment[]; // One per sampled frame, in time order
+  edits: HookEdit[];
+}
+
+export interface HookAnalysis extends HookBreakdown {
+  fileName: string;
+  platform: Platform;
+  frames: string[]; // JPEG data URLs, aligned with `moments`
+}
+
+// Form state shared by every mode in App
+export interface ConfigState {
+  goal: string;
+  style: string;
+  keywords: string;
+  originalText: string;
+  geography: string;
+  targetAudience: string;
+  targetLanguage: string;
+  demographics: string;
+  brandGuidelines: string;
+  niche: string;
+  trendPlatform?: Platform; // Trend Hunter focus; unset hunts across all platforms
+  activeTrend?: TrendItem; // Trend the user picked to ride; added to Create & Refine prompts
+  brief?: ContentBrief; // Create without media
+  mediaProcessing?: MediaProcessing; // Unset = DEFAULT_MEDIA_PROCESSING (full videos)
+}
+
+export interface BrandProfile {
+  id: string;
+  name: string;
+  voiceDescription: string;
+  forbiddenWords: string[];
+  mandatoryMentions: string[];
+  preferredHashtags: string[];
+  geography: string;
+  targetLanguage: string;
+  targetAudience: string;
+  demographics: string;
+  platform: Platform;
+  updatedAt: number;
+}
+
+export interface HistoryFile {
+  name: string;
+  type: FileInput['type'];
+  size: number;
+  thumbnail?: string; // Small JPEG data URL
+}
+
+// One persisted analysis run (inputs + output)
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  mode: AppMode;
+  platform: Platform;
+  config: ConfigState;
+  files: HistoryFile[];
+  result?: AnalysisResult;
+  variants?: AnalysisResult[]; // A/B variants when more than one was generated
+  crossPost?: CrossPostPackage[];
+  trends?: TrendItem[];
+  llm: LLMSettings;
+  pinned: boolean;
 }